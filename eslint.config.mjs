@@ -0,0 +1,14 @@
+// @ts-check
+/**
+ * ESLint Configuration
+ * Recommended JavaScript and typescript-eslint rules for the sources in src/
+ */
+
+import eslint from '@eslint/js';
+import tseslint from 'typescript-eslint';
+
+export default tseslint.config(
+  { ignores: ['dist/', 'dist-test/', 'node_modules/'] },
+  eslint.configs.recommended,
+  ...tseslint.configs.recommended
+);
@@ -10,11 +10,18 @@ const fs = require('fs');
 const path = require('path');
 const { exec } = require('child_process');
 
+// The report, the config, the failed tests list and the baselines all live in the
+// project directory; work from there so the server behaves the same wherever it is started
+const ROOT_DIR = __dirname;
+process.chdir(ROOT_DIR);
+
 // Check for VRT report first, fall back to Playwright report
-const VRT_REPORT_DIR = path.join(__dirname, 'vrt-report');
-const PLAYWRIGHT_REPORT_DIR = path.join(__dirname, 'reports', 'html-report');
+const VRT_REPORT_DIR = path.join(ROOT_DIR, 'vrt-report');
+const PLAYWRIGHT_REPORT_DIR = path.join(ROOT_DIR, 'reports', 'html-report');
 const REPORT_DIR = fs.existsSync(VRT_REPORT_DIR) ? VRT_REPORT_DIR : PLAYWRIGHT_REPORT_DIR;
 const PORT = 9324;
+const APPROVE_ENDPOINT = '/api/approve';
+const MAX_BODY_SIZE = 64 * 1024;
 
 // ANSI color codes
 const colors = {
@@ -86,10 +93,130 @@ function openBrowser(url) {
   exec(`${openCommand} ${url}`);
 }
 
+/**
+ * Send a JSON response
+ */
+function sendJson(res, status, data) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * Only accept requests made by the report itself. Requiring a JSON body forces
+ * a CORS preflight for cross-site requests, which this server never answers
+ */
+function isTrustedApproveRequest(req) {
+  const contentType = (req.headers['content-type'] || '').split(';')[0].trim();
+  if (contentType !== 'application/json') {
+    return false;
+  }
+
+  const origin = req.headers.origin;
+  return !origin || origin === `http://localhost:${PORT}` || origin === `http://127.0.0.1:${PORT}`;
+}
+
+/**
+ * Promote the current screenshot of a failed test to its baseline
+ * Body: { scenarioId, viewport, browser?, checkpoint? }
+ * Responds 400 for invalid requests and tests that didn't fail, 409 when the
+ * screenshot to accept is gone (e.g. after another run) and 500 for server errors
+ */
+function handleApprove(req, res) {
+  if (REPORT_DIR !== VRT_REPORT_DIR) {
+    sendJson(res, 404, { error: 'Accepting changes is only available for VRT reports' });
+    return;
+  }
+
+  if (!isTrustedApproveRequest(req)) {
+    sendJson(res, 403, { error: 'Forbidden' });
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+    if (body.length > MAX_BODY_SIZE) {
+      sendJson(res, 413, { error: 'Request body too large' });
+      req.destroy();
+    }
+  });
+
+  req.on('end', () => {
+    let key;
+    try {
+      key = JSON.parse(body);
+    } catch {
+      sendJson(res, 400, { error: 'Invalid JSON body' });
+      return;
+    }
+
+    if (!key || typeof key.scenarioId !== 'string' || typeof key.viewport !== 'string') {
+      sendJson(res, 400, { error: 'scenarioId and viewport are required' });
+      return;
+    }
+
+    const approvalKey = {
+      scenarioId: key.scenarioId,
+      viewport: key.viewport,
+      browser: key.browser || undefined,
+      checkpoint: key.checkpoint || undefined,
+    };
+
+    let approvalService;
+    let failedTests;
+    let findFailedTest;
+    try {
+      // Loaded on demand so Playwright reports can be served without a build
+      const { loadConfig } = require(path.join(ROOT_DIR, 'dist', 'config', 'loader'));
+      const { ApprovalService } = require(path.join(ROOT_DIR, 'dist', 'services', 'approval'));
+      const failedTracker = require(path.join(ROOT_DIR, 'dist', 'services', 'failed-tracker'));
+
+      approvalService = new ApprovalService(loadConfig());
+      failedTests = failedTracker.loadFailedTests();
+      findFailedTest = failedTracker.findFailedTest;
+    } catch (error) {
+      console.log(`  ${colors.red}✗ ${error.message}${colors.reset}`);
+      sendJson(res, 500, { error: error.message });
+      return;
+    }
+
+    const test = findFailedTest(failedTests, approvalKey);
+    if (!test) {
+      sendJson(res, 400, { error: `"${key.scenarioId}" @ ${key.viewport} is not in the failed tests of the last run` });
+      return;
+    }
+
+    if (!approvalService.getCandidate(test)) {
+      sendJson(res, 409, { error: `No current screenshot to approve for "${key.scenarioId}" @ ${key.viewport}` });
+      return;
+    }
+
+    try {
+      const baselines = approvalService.approveFailedTest(approvalKey);
+
+      console.log(`  ${colors.green}✓ Accepted${colors.reset} ${key.scenarioId} @ ${key.viewport}`);
+      sendJson(res, 200, { baselines: baselines.map((file) => path.relative(ROOT_DIR, file)) });
+    } catch (error) {
+      console.log(`  ${colors.red}✗ ${error.message}${colors.reset}`);
+      sendJson(res, 500, { error: error.message });
+    }
+  });
+}
+
 /**
  * Handle HTTP requests
  */
 function handleRequest(req, res) {
+  if (req.url === APPROVE_ENDPOINT) {
+    if (req.method === 'POST') {
+      handleApprove(req, res);
+    } else {
+      res.writeHead(405, { Allow: 'POST' });
+      res.end('Method not allowed');
+    }
+    return;
+  }
+
   let filePath = path.join(REPORT_DIR, req.url === '/' ? 'index.html' : req.url);
 
   // Remove query strings
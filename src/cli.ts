@@ -4,16 +4,69 @@
  * Main entry point for the command-line interface
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { testConnection } from './commands/test-connection';
 import { generateBaseline } from './commands/generate-baseline';
 import { runTests } from './commands/run-tests';
 import { cleanData } from './commands/clean';
+import { approveBaselines } from './commands/approve';
+import { migrateBaselines, baselineStatus } from './commands/baselines';
+import { showHistory } from './commands/history';
+import { compareEnvironments } from './commands/compare-envs';
+import { mergeResults } from './commands/merge-results';
+import { REPORTER_FORMATS } from './report/exporters';
+import { ReporterFormat, Shard } from './types';
+import { parseShard } from './utils/shard';
 import { createDefaultConfig, configExists, getConfigPath } from './config/loader';
 import chalk from 'chalk';
 
 const program = new Command();
 
+/**
+ * Parse a positive integer option value
+ */
+function parseCount(value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return count;
+}
+
+/**
+ * Parse the capture count of --stability-check, which needs two captures to compare
+ */
+function parseCaptureCount(value: string): number {
+  const count = parseCount(value);
+  if (count < 2) {
+    throw new InvalidArgumentError('Needs at least 2 captures to compare.');
+  }
+  return count;
+}
+
+/**
+ * Parse the comma-separated formats of --reporter
+ */
+function parseReporters(value: string): ReporterFormat[] {
+  const formats = value.split(',').map((format) => format.trim()).filter(Boolean);
+  const unknown = formats.filter((format) => !REPORTER_FORMATS.includes(format as ReporterFormat));
+  if (formats.length === 0 || unknown.length > 0) {
+    throw new InvalidArgumentError(`Expected a comma-separated list of: ${REPORTER_FORMATS.join(', ')}.`);
+  }
+  return formats as ReporterFormat[];
+}
+
+/**
+ * Parse the index/total value of --shard
+ */
+function parseShardOption(value: string): Shard {
+  try {
+    return parseShard(value);
+  } catch (error) {
+    throw new InvalidArgumentError(error instanceof Error ? error.message : 'Invalid shard.');
+  }
+}
+
 program
   .name('vrt')
   .description('Visual Regression Testing CLI - Playwright-based screenshot comparison')
@@ -47,6 +100,20 @@ program
     '-f, --failed',
     'Only regenerate baselines for scenarios that failed in the last test run'
   )
+  .option(
+    '--stability-check <captures>',
+    'Capture each page several times and skip baselines that differ between captures',
+    parseCaptureCount
+  )
+  .option(
+    '--allow-flaky',
+    'With --stability-check, save baselines that differed between captures instead of skipping them'
+  )
+  .option(
+    '--shard <index/total>',
+    'Only capture one share of the baselines, e.g. 1/4 for the first of four machines',
+    parseShardOption
+  )
   .action(generateBaseline);
 
 // Run Tests Command
@@ -64,7 +131,7 @@ program
   )
   .option(
     '-u, --update-baseline',
-    'Update baselines for passing tests'
+    'Replace the baselines of failed tests (and create missing ones) with the new screenshots'
   )
   .option(
     '--headed',
@@ -74,8 +141,105 @@ program
     '-f, --failed',
     'Only run tests that failed in the last run'
   )
+  .option(
+    '--stability-check <captures>',
+    'Capture each page several times and flag images that differ between captures as flaky',
+    parseCaptureCount
+  )
+  .option(
+    '--shard <index/total>',
+    'Only run one share of the tests, e.g. 1/4 for the first of four machines (combine them with merge-results)',
+    parseShardOption
+  )
+  .option(
+    '--reporter <formats>',
+    'Write machine-readable results: comma-separated list of junit, json, markdown',
+    parseReporters
+  )
+  .option(
+    '--junit-output <path>',
+    'Path of the JUnit XML file (default: reports/junit.xml)'
+  )
+  .option(
+    '--json-output <path>',
+    'Path of the JSON results file (default: reports/results.json)'
+  )
+  .option(
+    '--markdown-output <path>',
+    'Path of the Markdown summary (default: reports/summary.md)'
+  )
   .action(runTests);
 
+// Compare Environments Command - Diff baselineDomain against testDomain in one run
+program
+  .command('compare-envs')
+  .description('Capture every scenario on baselineDomain and testDomain at the same time and compare them')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option(
+    '-s, --scenario <ids...>',
+    'Filter by scenario IDs or titles (can specify multiple)'
+  )
+  .option(
+    '-v, --viewport <keys...>',
+    'Filter by viewport keys (can specify multiple)'
+  )
+  .option(
+    '--headed',
+    'Run browser in headed mode (visible) for debugging'
+  )
+  .action(compareEnvironments);
+
+// Merge Results Command - Combine the results of sharded test runs
+program
+  .command('merge-results')
+  .description('Combine the results of run-tests --shard runs into one report and failed tests list')
+  .argument('[files...]', 'Shard result files (default: reports/shard-*-of-*.json)')
+  .option(
+    '--reporter <formats>',
+    'Write machine-readable results: comma-separated list of junit, json, markdown',
+    parseReporters
+  )
+  .option(
+    '--junit-output <path>',
+    'Path of the JUnit XML file (default: reports/junit.xml)'
+  )
+  .option(
+    '--json-output <path>',
+    'Path of the JSON results file (default: reports/results.json)'
+  )
+  .option(
+    '--markdown-output <path>',
+    'Path of the Markdown summary (default: reports/summary.md)'
+  )
+  .action(mergeResults);
+
+// Approve Command - Review failed results and promote accepted screenshots to baselines
+program
+  .command('approve')
+  .description('Review the failed tests of the last run and accept their screenshots as baselines')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option(
+    '-s, --scenario <patterns...>',
+    'Only review failed tests whose scenario ID matches (glob patterns allowed)'
+  )
+  .option(
+    '-v, --viewport <patterns...>',
+    'Only review failed tests whose viewport key matches (glob patterns allowed)'
+  )
+  .option(
+    '-y, --yes',
+    'Accept all matching tests without prompting'
+  )
+  .action(approveBaselines);
+
+// History Command - Trends across recorded test runs
+program
+  .command('history')
+  .description('Show pass-rate trends and the most often failing tests of recent runs')
+  .option('-n, --limit <runs>', 'Number of recent runs to analyze', parseCount, 20)
+  .option('-t, --top <count>', 'Number of failing tests to list', parseCount, 10)
+  .action(showHistory);
+
 // Report Command - Open Playwright HTML report
 program
   .command('report')
@@ -93,11 +257,31 @@ program
 // Clean Command - Remove all generated data
 program
   .command('clean')
-  .description('Remove all generated data (baselines, screenshots, diffs, reports, failed tests)')
+  .description('Remove all generated data (baselines, screenshots, diffs, reports, failed tests, run history)')
   .option('-c, --config <path>', 'Path to configuration file')
   .option('-y, --yes', 'Skip confirmation prompt')
   .action(cleanData);
 
+// Baselines Command - Maintenance tasks for the baseline directory
+const baselines = program
+  .command('baselines')
+  .description('Manage stored baseline images');
+
+baselines
+  .command('migrate')
+  .description('Rename baselines stored under unsanitized scenario IDs to the current naming scheme')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option('--dry-run', 'Show the renames without changing any files')
+  .action(migrateBaselines);
+
+baselines
+  .command('status')
+  .description('List orphaned, missing and stale baselines compared to the API scenarios')
+  .option('-c, --config <path>', 'Path to configuration file')
+  .option('--prune', 'Delete orphaned baselines')
+  .option('-y, --yes', 'Skip confirmation prompt when pruning')
+  .action(baselineStatus);
+
 // Init Command - Create default config
 program
   .command('init')
@@ -172,12 +356,17 @@ program
         const mode =
           scenario.mode === 'interactive'
             ? chalk.yellow('interactive')
-            : chalk.green('static');
+            : scenario.mode === 'element'
+              ? chalk.magenta('element')
+              : chalk.green('static');
 
         console.log(`  ${chalk.cyan(scenario.id)}`);
         console.log(`    Title: ${scenario.title}`);
         console.log(`    URL: ${scenario.url}`);
         console.log(`    Mode: ${mode}`);
+        if (scenario.mode === 'element' && scenario.target_selector) {
+          console.log(`    Target: ${scenario.target_selector}`);
+        }
         console.log(`    Wait: ${scenario.wait_time_ms}ms`);
         console.log(`    Viewports: ${scenario.viewport_keys.join(', ')}`);
 
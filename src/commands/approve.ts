@@ -0,0 +1,168 @@
+/**
+ * Approve Command
+ * Walks through the failed results of the last run and promotes accepted screenshots to baselines
+ */
+
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig } from '../config/loader';
+import { ApprovalService, ApprovalCandidate } from '../services/approval';
+import { loadFailedTests, saveFailedTests, clearFailedTests, FailedTest } from '../services/failed-tracker';
+import { DEFAULT_BROWSER } from '../utils/browser';
+import { matchesPattern } from '../utils/pattern';
+import { createPromptSession } from '../utils/prompt';
+
+export interface ApproveOptions {
+  config?: string;
+  scenario?: string[];
+  viewport?: string[];
+  yes?: boolean;
+}
+
+/**
+ * Whether a failed test matches the --scenario and --viewport patterns (any pattern of each)
+ */
+function matchesFilters(test: FailedTest, options: ApproveOptions): boolean {
+  const scenarioMatches =
+    !options.scenario || options.scenario.some((pattern) => matchesPattern(test.scenarioId, pattern));
+  const viewportMatches =
+    !options.viewport || options.viewport.some((pattern) => matchesPattern(test.viewport, pattern));
+  return scenarioMatches && viewportMatches;
+}
+
+/**
+ * Build the display name of a failed test
+ */
+function describeTest(test: FailedTest): string {
+  const browser = test.browser && test.browser !== DEFAULT_BROWSER ? ` [${test.browser}]` : '';
+  const checkpoint = test.checkpoint ? ` » ${test.checkpoint}` : '';
+  return `${test.scenarioId} @ ${test.viewport}${browser}${checkpoint}`;
+}
+
+/**
+ * Print the images of a candidate so they can be opened before deciding
+ */
+function printCandidate(candidate: ApprovalCandidate, position: number, total: number): void {
+  console.log(chalk.bold(`[${position}/${total}] ${describeTest(candidate.test)}`));
+
+  if (candidate.baselinePaths.length === 0) {
+    console.log(`  ${chalk.cyan('Baseline:')} ${chalk.yellow('none (accepting creates it)')}`);
+  }
+  for (const file of candidate.baselinePaths) {
+    console.log(`  ${chalk.cyan('Baseline:')} ${file}`);
+  }
+  for (const file of candidate.screenshotPaths) {
+    console.log(`  ${chalk.cyan('Current:')}  ${file}`);
+  }
+  for (const file of candidate.diffPaths) {
+    console.log(`  ${chalk.cyan('Diff:')}     ${file}`);
+  }
+}
+
+export async function approveBaselines(options: ApproveOptions): Promise<void> {
+  const spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    const failedTests = loadFailedTests();
+    if (failedTests.length === 0) {
+      console.log();
+      console.log(chalk.green('No failed tests to approve. Run "npm run test" first.'));
+      return;
+    }
+
+    const selected = failedTests.filter((test) => matchesFilters(test, options));
+    if (selected.length === 0) {
+      console.log();
+      console.log(chalk.yellow(`None of the ${failedTests.length} failed test(s) match the given filters.`));
+      return;
+    }
+
+    const approvalService = new ApprovalService(config);
+    const candidates: ApprovalCandidate[] = [];
+    const unavailable: FailedTest[] = [];
+
+    for (const test of selected) {
+      const candidate = approvalService.getCandidate(test);
+      if (candidate) {
+        candidates.push(candidate);
+      } else {
+        unavailable.push(test);
+      }
+    }
+
+    console.log();
+    if (unavailable.length > 0) {
+      console.log(chalk.yellow('No current screenshot to approve (capture failed or screenshots were cleaned):'));
+      for (const test of unavailable) {
+        console.log(`  ${chalk.yellow('-')} ${describeTest(test)}`);
+      }
+      console.log();
+    }
+
+    const approved = new Set<FailedTest>();
+    let acceptRemaining = !!options.yes;
+    const prompt = acceptRemaining ? null : createPromptSession();
+
+    try {
+      for (const [index, candidate] of candidates.entries()) {
+        if (!acceptRemaining && prompt) {
+          printCandidate(candidate, index + 1, candidates.length);
+
+          const answer = (await prompt.ask('  Accept? [y]es, [n]o, [a]ll remaining, [q]uit:')).toLowerCase();
+          console.log();
+
+          if (answer === 'q') {
+            break;
+          }
+          if (answer === 'a') {
+            acceptRemaining = true;
+          } else if (answer !== 'y') {
+            continue;
+          }
+        }
+
+        approvalService.approve(candidate);
+        approved.add(candidate.test);
+        console.log(`  ${chalk.green('✓')} ${describeTest(candidate.test)}`);
+      }
+    } finally {
+      prompt?.close();
+    }
+
+    if (approved.size > 0) {
+      approvalService.save();
+    }
+
+    // Rejected and unreviewed tests stay in the failed list for "npm run test:failed"
+    const remaining = failedTests.filter((test) => !approved.has(test));
+    if (remaining.length > 0) {
+      saveFailedTests(remaining);
+    } else {
+      clearFailedTests();
+    }
+
+    console.log();
+    console.log(chalk.bold('Approval Summary:'));
+    console.log(`  ${chalk.green('Accepted:')} ${approved.size}`);
+    console.log(`  ${chalk.yellow('Still failing:')} ${remaining.length}`);
+
+    if (remaining.length > 0) {
+      console.log();
+      console.log(chalk.cyan('Run "npm run test:failed" to re-check the remaining tests.'));
+    }
+  } catch (error) {
+    spinner.fail('Error approving baselines');
+    console.log();
+
+    if (error instanceof Error) {
+      console.log(chalk.red('Error:'), error.message);
+    } else {
+      console.log(chalk.red('Unknown error occurred'));
+    }
+
+    process.exit(1);
+  }
+}
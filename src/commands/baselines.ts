@@ -0,0 +1,400 @@
+/**
+ * Baselines Command
+ * Maintenance tasks for the baseline directory
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig } from '../config/loader';
+import { ApiService } from '../services/api';
+import { ComparisonService } from '../services/comparison';
+import { BaselineManifestService } from '../services/baseline-manifest';
+import { getArtifactFilename, getMigratedFilename } from '../utils/artifact-name';
+import { DEFAULT_BROWSER, getBrowserViewportKey, resolveBrowsers } from '../utils/browser';
+import { getCheckpointViewportKey, getScenarioCheckpoints } from '../utils/interactions';
+import { confirm } from '../utils/prompt';
+import { ApiPayload, BrowserEngine, Scenario, Viewport, VrtConfig } from '../types';
+
+export interface MigrateBaselinesOptions {
+  config?: string;
+  dryRun?: boolean;
+}
+
+export interface BaselineStatusOptions {
+  config?: string;
+  prune?: boolean;
+  yes?: boolean;
+}
+
+/**
+ * A scenario/viewport/browser image (final state or checkpoint) the API expects a baseline for
+ */
+interface ExpectedBaseline {
+  scenario: Scenario;
+  viewport: Viewport;
+  browser: BrowserEngine;
+  checkpoint?: string;
+  // Filename without the .png extension; tiled baselines add __tileN to it
+  stem: string;
+}
+
+interface StaleBaseline {
+  filename: string;
+  reasons: string[];
+}
+
+interface BaselineRename {
+  from: string;
+  to: string;
+}
+
+interface MigrationPlan {
+  renames: BaselineRename[];
+  // Files whose new name is already taken by another baseline
+  conflicts: BaselineRename[];
+}
+
+/**
+ * List PNG files below a directory, relative to it and with `/` separators
+ */
+function listPngFiles(rootDir: string, subDir = ''): string[] {
+  const files: string[] = [];
+
+  for (const entry of fs.readdirSync(path.join(rootDir, subDir), { withFileTypes: true })) {
+    const relativePath = subDir ? `${subDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listPngFiles(rootDir, relativePath));
+    } else if (entry.isFile() && entry.name.endsWith('.png')) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Work out which baselines need a new name under the shared naming rules
+ */
+function planMigration(baselineDir: string): MigrationPlan {
+  const files = listPngFiles(baselineDir);
+  const taken = new Set(files);
+  const plan: MigrationPlan = { renames: [], conflicts: [] };
+
+  for (const file of files) {
+    const target = getMigratedFilename(file);
+    if (target === file) {
+      continue;
+    }
+
+    if (taken.has(target)) {
+      plan.conflicts.push({ from: file, to: target });
+    } else {
+      plan.renames.push({ from: file, to: target });
+      taken.add(target);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Remove directories left empty after their baselines were moved out
+ */
+function removeEmptyDirectories(dirPath: string, isRoot = true): void {
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      removeEmptyDirectories(path.join(dirPath, entry.name), false);
+    }
+  }
+
+  if (!isRoot && fs.readdirSync(dirPath).length === 0) {
+    fs.rmdirSync(dirPath);
+  }
+}
+
+/**
+ * Rename baselines stored under raw scenario IDs (e.g. `node:123__desktop.png`)
+ * to the sanitized names that captures and comparisons use
+ */
+export async function migrateBaselines(options: MigrateBaselinesOptions): Promise<void> {
+  const spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    if (!fs.existsSync(config.baselineDir)) {
+      console.log(chalk.green('Nothing to migrate - no baseline directory found.'));
+      return;
+    }
+
+    spinner.start('Scanning baselines...');
+    const plan = planMigration(config.baselineDir);
+    spinner.succeed('Baselines scanned');
+
+    if (plan.renames.length === 0 && plan.conflicts.length === 0) {
+      console.log(chalk.green('All baseline filenames are up to date.'));
+      return;
+    }
+
+    console.log();
+    for (const rename of plan.renames) {
+      console.log(`  ${chalk.yellow(rename.from)} → ${chalk.cyan(rename.to)}`);
+    }
+    for (const conflict of plan.conflicts) {
+      console.log(`  ${chalk.red('✗')} ${conflict.from} → ${conflict.to} ${chalk.red('(target already exists, skipped)')}`);
+    }
+    console.log();
+
+    if (options.dryRun) {
+      console.log(chalk.cyan(`Dry run: ${plan.renames.length} baseline(s) would be renamed.`));
+      return;
+    }
+
+    spinner.start('Renaming baselines...');
+    for (const rename of plan.renames) {
+      fs.renameSync(path.join(config.baselineDir, rename.from), path.join(config.baselineDir, rename.to));
+    }
+    removeEmptyDirectories(config.baselineDir);
+    spinner.succeed(`Renamed ${plan.renames.length} baseline(s)`);
+
+    if (plan.conflicts.length > 0) {
+      console.log();
+      console.log(
+        chalk.yellow(
+          `${plan.conflicts.length} baseline(s) were skipped because a file with the new name exists. ` +
+            'Remove whichever copy is outdated and run the migration again.'
+        )
+      );
+    }
+  } catch (error) {
+    spinner.fail('Error migrating baselines');
+    console.log();
+
+    if (error instanceof Error) {
+      console.log(chalk.red('Error:'), error.message);
+    } else {
+      console.log(chalk.red('Unknown error occurred'));
+    }
+
+    process.exit(1);
+  }
+}
+
+/**
+ * List every baseline the API payload expects, keyed by filename stem
+ */
+function getExpectedBaselines(payload: ApiPayload, config: VrtConfig): Map<string, ExpectedBaseline> {
+  const viewportMap = new Map(payload.viewports.map((viewport) => [viewport.machine_name, viewport]));
+  const expected = new Map<string, ExpectedBaseline>();
+
+  for (const scenario of payload.scenarios) {
+    for (const viewportKey of scenario.viewport_keys) {
+      const viewport = viewportMap.get(viewportKey);
+      if (!viewport) {
+        continue;
+      }
+
+      for (const browser of resolveBrowsers(viewport, config)) {
+        const artifactKey = getBrowserViewportKey(viewportKey, browser);
+        const checkpoints: (string | undefined)[] = [...getScenarioCheckpoints(scenario), undefined];
+
+        for (const checkpoint of checkpoints) {
+          const key = checkpoint ? getCheckpointViewportKey(artifactKey, checkpoint) : artifactKey;
+          const stem = getArtifactFilename(scenario.id, key).replace(/\.png$/, '');
+          expected.set(stem, { scenario, viewport, browser, checkpoint, stem });
+        }
+      }
+    }
+  }
+
+  return expected;
+}
+
+const TILE_SUFFIX = /__tile(\d+)$/;
+
+/**
+ * Find the expected baseline a file belongs to, whether it is a whole image or a tile
+ */
+function matchBaseline(filename: string, expected: Map<string, ExpectedBaseline>): ExpectedBaseline | undefined {
+  const stem = filename.replace(/\.png$/, '');
+  return expected.get(stem) ?? expected.get(stem.replace(TILE_SUFFIX, ''));
+}
+
+/**
+ * Index of the tile a baseline file holds, or undefined for a whole image
+ */
+function getTileIndex(filename: string): number | undefined {
+  const match = filename.replace(/\.png$/, '').match(TILE_SUFFIX);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Number of tiles the current tiled baseline of a stem has: the count recorded in the
+ * manifest, or for baselines without one, the tiles from tile0 up to the first gap
+ * (the tiles comparisons read)
+ */
+function countExpectedTiles(stem: string, files: Set<string>, manifestService: BaselineManifestService): number {
+  const recorded = manifestService.get(`${stem}__tile0.png`)?.tileCount;
+  if (recorded !== undefined) {
+    return recorded;
+  }
+
+  let count = 0;
+  while (files.has(`${stem}__tile${count}.png`)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Describe an expected baseline for the console
+ */
+function describeBaseline(baseline: ExpectedBaseline): string {
+  const browser = baseline.browser === DEFAULT_BROWSER ? '' : ` [${baseline.browser}]`;
+  const checkpoint = baseline.checkpoint ? ` » ${baseline.checkpoint}` : '';
+  return `${baseline.scenario.title} (${baseline.scenario.id}) @ ${baseline.viewport.machine_name}${browser}${checkpoint}`;
+}
+
+/**
+ * Cross-check stored baselines against the API payload: baselines without a scenario,
+ * scenario/viewport pairs without a baseline, and baselines captured differently
+ * from what the payload now describes
+ */
+export async function baselineStatus(options: BaselineStatusOptions): Promise<void> {
+  const spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    spinner.start('Fetching scenarios from API...');
+    const apiService = new ApiService(config);
+    const payload = await apiService.fetchScenarios();
+    spinner.succeed(`Fetched ${payload.meta.scenario_count} scenarios with ${payload.meta.viewport_count} viewports`);
+
+    spinner.start('Checking baselines...');
+    const comparisonService = new ComparisonService(config);
+    const manifestService = new BaselineManifestService(config);
+    const expected = getExpectedBaselines(payload, config);
+    const files = comparisonService.listBaselines();
+
+    const orphans: string[] = [];
+    const stale: StaleBaseline[] = [];
+    const found = new Set<string>();
+    const staleStems = new Set<string>();
+    const fileSet = new Set(files);
+    const tileCounts = new Map<string, number>();
+
+    for (const filename of files) {
+      const baseline = matchBaseline(filename, expected);
+      if (!baseline) {
+        orphans.push(filename);
+        continue;
+      }
+
+      const tileIndex = getTileIndex(filename);
+      if (tileIndex !== undefined) {
+        if (!tileCounts.has(baseline.stem)) {
+          tileCounts.set(baseline.stem, countExpectedTiles(baseline.stem, fileSet, manifestService));
+        }
+        if (tileIndex >= (tileCounts.get(baseline.stem) as number)) {
+          orphans.push(filename);
+          continue;
+        }
+      }
+
+      found.add(baseline.stem);
+      const reasons = manifestService.findMismatches(filename, baseline.viewport);
+      if (manifestService.hasChanged(filename)) {
+        reasons.push('Image changed since it was recorded in the manifest');
+      }
+      if (reasons.length > 0) {
+        stale.push({ filename, reasons });
+        staleStems.add(baseline.stem);
+      }
+    }
+
+    const missing = [...expected.values()].filter((baseline) => !found.has(baseline.stem));
+    spinner.succeed(`Checked ${files.length} baseline(s) against ${expected.size} expected image(s)`);
+
+    console.log();
+    console.log(chalk.bold('Baseline Status:'));
+    console.log();
+    console.log(`  ${chalk.green('Up to date:')} ${found.size - staleStems.size}`);
+    console.log(`  ${chalk.yellow('Stale:')}      ${stale.length}`);
+    console.log(`  ${chalk.red('Missing:')}    ${missing.length}`);
+    console.log(`  ${chalk.red('Orphaned:')}   ${orphans.length}`);
+
+    if (orphans.length > 0) {
+      console.log();
+      console.log(chalk.bold('Orphaned baselines (no matching scenario/viewport, or tiles past the last one):'));
+      for (const filename of orphans) {
+        console.log(`  ${chalk.red('✗')} ${filename}`);
+      }
+    }
+
+    if (missing.length > 0) {
+      console.log();
+      console.log(chalk.bold('Missing baselines:'));
+      for (const baseline of missing) {
+        console.log(`  ${chalk.red('✗')} ${describeBaseline(baseline)}`);
+      }
+    }
+
+    if (stale.length > 0) {
+      console.log();
+      console.log(chalk.bold('Stale baselines:'));
+      for (const { filename, reasons } of stale) {
+        console.log(`  ${chalk.yellow('!')} ${filename}`);
+        for (const reason of reasons) {
+          console.log(`      ${reason}`);
+        }
+      }
+    }
+
+    console.log();
+
+    if (!options.prune) {
+      if (orphans.length > 0) {
+        console.log(chalk.cyan('Run "vrt baselines status --prune" to delete the orphaned baselines.'));
+      }
+      if (missing.length > 0 || stale.length > 0) {
+        console.log(chalk.cyan('Run "npm run baseline" to capture missing baselines and refresh stale ones.'));
+      }
+      return;
+    }
+
+    if (orphans.length === 0) {
+      console.log(chalk.green('No orphaned baselines to prune.'));
+      return;
+    }
+
+    if (!options.yes) {
+      const confirmed = await confirm(chalk.red(`Delete ${orphans.length} orphaned baseline(s)?`));
+      if (!confirmed) {
+        console.log(chalk.yellow('Prune cancelled.'));
+        return;
+      }
+    }
+
+    for (const filename of orphans) {
+      fs.unlinkSync(path.join(config.baselineDir, filename));
+    }
+    manifestService.save();
+    console.log(chalk.green(`Deleted ${orphans.length} orphaned baseline(s).`));
+  } catch (error) {
+    spinner.fail('Error checking baselines');
+    console.log();
+
+    if (error instanceof Error) {
+      console.log(chalk.red('Error:'), error.message);
+    } else {
+      console.log(chalk.red('Unknown error occurred'));
+    }
+
+    process.exit(1);
+  }
+}
@@ -1,15 +1,16 @@
 /**
  * Clean Command
- * Removes all generated data (baselines, screenshots, diffs, reports, failed tests)
+ * Removes all generated data (baselines, screenshots, diffs, reports, failed tests, run history)
  * Useful when copying the test folder to a new project
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as readline from 'readline';
 import chalk from 'chalk';
 import ora from 'ora';
 import { loadConfig, configExists } from '../config/loader';
+import { HISTORY_DIR } from '../services/history';
+import { confirm } from '../utils/prompt';
 
 export interface CleanOptions {
   config?: string;
@@ -52,23 +53,6 @@ function removeFile(filePath: string): boolean {
   return false;
 }
 
-/**
- * Prompt user for confirmation
- */
-async function confirm(message: string): Promise<boolean> {
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
-  });
-
-  return new Promise((resolve) => {
-    rl.question(`${message} (y/N): `, (answer) => {
-      rl.close();
-      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-    });
-  });
-}
-
 export async function cleanData(options: CleanOptions): Promise<void> {
   const spinner = ora('Analyzing project data...').start();
 
@@ -77,6 +61,7 @@ export async function cleanData(options: CleanOptions): Promise<void> {
     let baselineDir = './baselines';
     let outputDir = './screenshots';
     let diffDir = './diffs';
+    let authStatePath = '.vrt-auth-state.json';
 
     if (configExists()) {
       try {
@@ -84,6 +69,7 @@ export async function cleanData(options: CleanOptions): Promise<void> {
         baselineDir = config.baselineDir;
         outputDir = config.outputDir;
         diffDir = config.diffDir;
+        authStatePath = config.auth.storageStatePath;
       } catch {
         // Use defaults if config loading fails
       }
@@ -98,7 +84,9 @@ export async function cleanData(options: CleanOptions): Promise<void> {
       vrtReport: path.resolve(cwd, 'vrt-report'),
       reports: path.resolve(cwd, 'reports'),
       failedTests: path.resolve(cwd, '.vrt-failed.json'),
+      history: path.resolve(cwd, HISTORY_DIR),
       reportHtml: path.resolve(cwd, 'report.html'),
+      authState: path.resolve(cwd, authStatePath),
     };
 
     // Check what exists
@@ -122,9 +110,15 @@ export async function cleanData(options: CleanOptions): Promise<void> {
     if (fs.existsSync(paths.failedTests)) {
       existing.push({ name: 'Failed tests tracker', path: paths.failedTests, type: 'file' });
     }
+    if (fs.existsSync(paths.history)) {
+      existing.push({ name: 'Run history', path: paths.history, type: 'dir' });
+    }
     if (fs.existsSync(paths.reportHtml)) {
       existing.push({ name: 'Report HTML', path: paths.reportHtml, type: 'file' });
     }
+    if (fs.existsSync(paths.authState)) {
+      existing.push({ name: 'Login storage state', path: paths.authState, type: 'file' });
+    }
 
     spinner.stop();
 
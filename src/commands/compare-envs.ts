@@ -0,0 +1,302 @@
+/**
+ * Compare Environments Command
+ * Captures every scenario on baselineDomain and testDomain side by side and diffs them right away
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { loadConfig } from '../config/loader';
+import { ApiService } from '../services/api';
+import { ScreenshotService, CapturedScreenshot, CapturedCheckpoint } from '../services/screenshot';
+import { ComparisonService } from '../services/comparison';
+import { generateReport, cleanReport } from '../report/generator';
+import { replaceDomain } from '../utils/url';
+import { resolveEngineOptions, resolveThresholds } from '../utils/thresholds';
+import { getBrowserViewportKey, resolveBrowsers } from '../utils/browser';
+import { getCheckpointViewportKey, getScenarioCheckpoints } from '../utils/interactions';
+import { printResults, toReportResults } from './run-tests';
+import { BrowserEngine, Scenario, TestResult, TestRunSummary, Viewport, VrtConfig } from '../types';
+
+// Subdirectory of outputDir and diffDir for environment comparisons, so stored
+// baselines and the screenshots of the last test run are left alone
+const COMPARE_ENVS_DIR = 'compare-envs';
+
+export interface CompareEnvsOptions {
+  config?: string;
+  scenario?: string[];
+  viewport?: string[];
+  headed?: boolean;
+}
+
+type CapturedImage = CapturedScreenshot | CapturedCheckpoint;
+
+interface CompareTask {
+  // The scenario with its URL on each domain
+  baselineScenario: Scenario;
+  testScenario: Scenario;
+  viewport: Viewport;
+  browser: BrowserEngine;
+  // Viewport key including the engine suffix, used for artifact filenames
+  artifactKey: string;
+}
+
+/**
+ * Point the baseline, output and diff directories at the compare-envs subdirectories
+ * The comparison pipeline then reads the baseline-domain captures as its baselines
+ */
+function getEnvironmentConfig(config: VrtConfig): VrtConfig {
+  return {
+    ...config,
+    baselineDir: path.join(config.outputDir, COMPARE_ENVS_DIR, 'baseline'),
+    outputDir: path.join(config.outputDir, COMPARE_ENVS_DIR, 'test'),
+    diffDir: path.join(config.diffDir, COMPARE_ENVS_DIR),
+  };
+}
+
+export async function compareEnvironments(options: CompareEnvsOptions): Promise<void> {
+  const spinner = ora('Loading configuration...').start();
+
+  try {
+    const config = loadConfig(options.config);
+    spinner.succeed('Configuration loaded');
+
+    if (!config.baselineDomain || !config.testDomain) {
+      throw new Error(
+        'compare-envs needs both baselineDomain and testDomain (set them in the config or with VRT_BASELINE_DOMAIN and VRT_TEST_DOMAIN)'
+      );
+    }
+
+    spinner.start('Fetching scenarios from API...');
+    const apiService = new ApiService(config);
+    const payload = await apiService.fetchFilteredScenarios(options.scenario, options.viewport);
+    spinner.succeed(`Fetched ${payload.meta.scenario_count} scenarios with ${payload.meta.viewport_count} viewports`);
+
+    if (payload.scenarios.length === 0) {
+      console.log();
+      console.log(chalk.yellow('No scenarios to compare.'));
+      return;
+    }
+
+    const viewportMap = new Map<string, Viewport>();
+    for (const viewport of payload.viewports) {
+      viewportMap.set(viewport.machine_name, viewport);
+    }
+
+    const results: TestResult[] = [];
+    const tasks: CompareTask[] = [];
+
+    for (const scenario of payload.scenarios) {
+      const baselineScenario = { ...scenario, url: replaceDomain(scenario.url, config.baselineDomain) };
+      const testScenario = { ...scenario, url: replaceDomain(scenario.url, config.testDomain) };
+
+      for (const viewportKey of scenario.viewport_keys) {
+        const viewport = viewportMap.get(viewportKey);
+        if (!viewport) {
+          results.push({
+            scenarioId: scenario.id,
+            scenarioTitle: scenario.title,
+            scenarioUrl: testScenario.url,
+            baselineUrl: baselineScenario.url,
+            viewport: viewportKey,
+            passed: false,
+            error: `Viewport not found: ${viewportKey}`,
+          });
+          continue;
+        }
+
+        for (const browser of resolveBrowsers(viewport, config)) {
+          tasks.push({
+            baselineScenario,
+            testScenario,
+            viewport,
+            browser,
+            artifactKey: getBrowserViewportKey(viewportKey, browser),
+          });
+        }
+      }
+    }
+
+    console.log();
+    console.log(chalk.cyan('Comparing environments:'));
+    console.log(chalk.magenta(`  Baseline domain: ${config.baselineDomain}`));
+    console.log(chalk.magenta(`  Test domain: ${config.testDomain}`));
+    console.log(chalk.cyan(`  Scenarios: ${payload.scenarios.length}`));
+    console.log(chalk.cyan(`  Captures per domain: ${tasks.length}`));
+    console.log(chalk.cyan(`  Browsers: ${config.playwright.browsers.join(', ')}`));
+    // Each task captures both domains, so the worker budget is split between the two
+    const pairWorkers = Math.max(1, Math.floor(config.playwright.workers / 2));
+    const captureInParallel = config.playwright.workers > 1;
+    console.log(chalk.cyan(`  Workers: ${config.playwright.workers} (${pairWorkers} page pair(s) at a time)`));
+    console.log();
+
+    const envConfig = getEnvironmentConfig(config);
+    for (const dir of [envConfig.baselineDir, envConfig.outputDir, envConfig.diffDir]) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+
+    spinner.start('Initializing browser...');
+    const headless = options.headed ? false : config.playwright.headless;
+    const screenshotService = new ScreenshotService(envConfig, headless);
+    const comparisonService = new ComparisonService(envConfig);
+    await screenshotService.initialize();
+    spinner.succeed('Browser initialized');
+
+    if (config.auth.strategy !== 'none') {
+      spinner.start('Logging in...');
+      await screenshotService.authenticateDomains([config.baselineDomain, config.testDomain]);
+      spinner.succeed('Logged in');
+    }
+
+    const startTime = Date.now();
+
+    // Compare the test-domain capture of one image (final state or checkpoint) with its baseline-domain twin
+    const compareCapture = async (
+      task: CompareTask,
+      captured: CapturedImage,
+      artifactKey: string,
+      checkpoint?: string
+    ): Promise<TestResult> => {
+      const scenario = task.testScenario;
+      const compareOptions = {
+        ignoreRegions: scenario.ignore_regions,
+        dimensionPolicy: scenario.dimension_policy,
+        thresholds: resolveThresholds(config.comparison, scenario, task.viewport.machine_name),
+        engineOptions: resolveEngineOptions(config.comparison, scenario.id, task.viewport.machine_name),
+        deviceScaleFactor: task.viewport.device_scale_factor,
+        tileHeight: captured.tileHeight,
+      };
+
+      const result = captured.tiles
+        ? await comparisonService.compareTiledScreenshot(scenario.id, artifactKey, captured.tiles, compareOptions)
+        : await comparisonService.compareScreenshot(scenario.id, artifactKey, captured.path, compareOptions);
+
+      result.viewport = task.viewport.machine_name;
+      result.browser = task.browser;
+      result.checkpoint = checkpoint;
+      result.scenarioTitle = scenario.title;
+      result.scenarioUrl = scenario.url;
+      result.baselineUrl = task.baselineScenario.url;
+      return result;
+    };
+
+    let taskIndex = 0;
+    let completed = 0;
+    let passed = 0;
+    let failed = 0;
+
+    const processTask = async (): Promise<void> => {
+      while (taskIndex < tasks.length) {
+        const task = tasks[taskIndex++];
+        const taskResults: TestResult[] = [];
+
+        try {
+          const captureBaseline = () =>
+            screenshotService.captureWithRetry(task.baselineScenario, task.viewport, envConfig.baselineDir, task.browser);
+          const captureTest = () =>
+            screenshotService.captureWithRetry(task.testScenario, task.viewport, envConfig.outputDir, task.browser);
+
+          // Both domains are captured at the same time so content edits can't land in between;
+          // a single worker captures them one after the other to stay at one open page
+          const [baselineCapture, testCapture] = captureInParallel
+            ? await Promise.all([captureBaseline(), captureTest()])
+            : [await captureBaseline(), await captureTest()];
+
+          for (const checkpoint of testCapture.checkpoints ?? []) {
+            const checkpointKey = getCheckpointViewportKey(task.artifactKey, checkpoint.name);
+            if (!baselineCapture.checkpoints?.some((c) => c.name === checkpoint.name)) {
+              throw new Error(`Checkpoint "${checkpoint.name}" was not captured on ${config.baselineDomain}`);
+            }
+            taskResults.push(await compareCapture(task, checkpoint, checkpointKey, checkpoint.name));
+          }
+
+          taskResults.push(await compareCapture(task, testCapture, task.artifactKey));
+        } catch (error) {
+          // A failed capture on either domain fails the final state and every remaining checkpoint
+          const checkpoints = [...getScenarioCheckpoints(task.testScenario), undefined];
+          for (const checkpoint of checkpoints.slice(taskResults.length)) {
+            taskResults.push({
+              scenarioId: task.testScenario.id,
+              scenarioTitle: task.testScenario.title,
+              scenarioUrl: task.testScenario.url,
+              baselineUrl: task.baselineScenario.url,
+              viewport: task.viewport.machine_name,
+              browser: task.browser,
+              checkpoint,
+              passed: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
+
+        for (const result of taskResults) {
+          if (result.passed) {
+            passed++;
+          } else {
+            failed++;
+          }
+          results.push(result);
+        }
+
+        completed++;
+        spinner.text = `Comparing: ${completed}/${tasks.length} | ${chalk.green(`Matching: ${passed}`)} | Different: ${failed}`;
+      }
+    };
+
+    spinner.start(`Comparing: 0/${tasks.length}`);
+
+    try {
+      const numWorkers = Math.min(pairWorkers, tasks.length);
+      await Promise.all(Array.from({ length: numWorkers }, () => processTask()));
+      spinner.succeed(`Compared ${tasks.length} page(s) on both domains`);
+    } finally {
+      await screenshotService.close();
+    }
+
+    const summary: TestRunSummary = {
+      total: results.length,
+      passed: results.filter((r) => r.passed).length,
+      failed: results.filter((r) => !r.passed).length,
+      skipped: 0,
+      duration: Date.now() - startTime,
+      results,
+    };
+
+    // The report reads the baseline-domain capture as "Baseline" and the test-domain capture as "Current"
+    spinner.start('Generating HTML report...');
+    const reportDir = path.join(process.cwd(), 'vrt-report');
+    cleanReport(reportDir);
+
+    const reportResult = generateReport(toReportResults(results), {
+      outputDir: reportDir,
+      title: 'Environment Comparison',
+      copyImages: true,
+      allowAccept: false,
+    });
+    spinner.succeed(`Report generated: ${reportResult.reportPath}`);
+
+    console.log();
+    printResults(results, summary, false);
+
+    console.log();
+    console.log(chalk.cyan('View the detailed report:'));
+    console.log(chalk.cyan('  npm run report'));
+    console.log(chalk.cyan(`  or open: ${reportResult.reportPath}`));
+
+    if (summary.failed > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spinner.fail('Error');
+    console.log();
+
+    if (error instanceof Error) {
+      console.log(chalk.red('Error:'), error.message);
+    } else {
+      console.log(chalk.red('Unknown error occurred'));
+    }
+
+    process.exit(1);
+  }
+}
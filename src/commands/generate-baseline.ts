@@ -9,10 +9,35 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { loadConfig } from '../config/loader';
 import { ApiService } from '../services/api';
-import { ScreenshotService } from '../services/screenshot';
+import { ScreenshotService, CapturedScreenshot } from '../services/screenshot';
+import { BaselineManifestService, createCaptureInfo } from '../services/baseline-manifest';
+import { ComparisonService } from '../services/comparison';
+import { StabilityService, StabilityTarget, describeInstability } from '../services/stability';
 import { loadFailedTests, clearFailedTests, saveFailedTests, FailedTest } from '../services/failed-tracker';
 import { replaceDomain } from '../utils/url';
-import { Scenario, Viewport } from '../types';
+import { DEFAULT_BROWSER, getBrowserViewportKey, resolveBrowsers } from '../utils/browser';
+import { getCheckpointViewportKey } from '../utils/interactions';
+import { formatShard, selectShard } from '../utils/shard';
+import { Scenario, Viewport, BrowserEngine, Shard, StabilityResult, VrtConfig } from '../types';
+
+// Unstable regions listed per flaky baseline in the console
+const MAX_PRINTED_REGIONS = 3;
+
+// With --stability-check, captures wait below the output directory until they are known to be stable
+const CANDIDATES_DIR = '.baseline-candidates';
+
+/**
+ * A baseline image whose captures differed from each other
+ */
+interface UnstableBaseline {
+  // Key of the capture in the captureAll successes
+  key: string;
+  scenarioId: string;
+  viewport: string;
+  browser: BrowserEngine;
+  name: string;
+  result: StabilityResult;
+}
 
 /**
  * Clean the baseline directory by removing all files
@@ -38,12 +63,188 @@ function cleanBaselineDirectory(baselineDir: string): number {
   return removedCount;
 }
 
+/**
+ * Copy candidate captures into the baseline directory, leaving out the skipped ones
+ * Tiles go through the comparison service so tiles left by a taller earlier capture are removed
+ * Returns the captures with their baseline paths, keyed like the candidates
+ */
+function promoteCandidates(
+  comparisonService: ComparisonService,
+  config: VrtConfig,
+  scenarios: Scenario[],
+  viewportMap: Map<string, Viewport>,
+  candidates: Map<string, CapturedScreenshot>,
+  skip: Set<string>
+): Map<string, CapturedScreenshot> {
+  const promoted = new Map<string, CapturedScreenshot>();
+
+  for (const scenario of scenarios) {
+    for (const viewportKey of scenario.viewport_keys) {
+      const viewport = viewportMap.get(viewportKey);
+      if (!viewport) {
+        continue;
+      }
+
+      for (const browser of resolveBrowsers(viewport, config)) {
+        const artifactKey = getBrowserViewportKey(viewportKey, browser);
+        const key = `${scenario.id}__${artifactKey}`;
+        const capture = candidates.get(key);
+        if (!capture || skip.has(key)) {
+          continue;
+        }
+
+        const promoteImage = <T extends { path: string; tiles?: string[] }>(image: T, imageKey: string): T => {
+          const tiles = image.tiles && comparisonService.copyTilesToBaseline(image.tiles, scenario.id, imageKey);
+          return {
+            ...image,
+            path: tiles ? tiles[0] : comparisonService.copyToBaseline(image.path, scenario.id, imageKey),
+            tiles,
+          };
+        };
+
+        promoted.set(key, {
+          ...promoteImage(capture, artifactKey),
+          checkpoints: capture.checkpoints?.map((checkpoint) =>
+            promoteImage(checkpoint, getCheckpointViewportKey(artifactKey, checkpoint.name))
+          ),
+        });
+      }
+    }
+  }
+
+  return promoted;
+}
+
+/**
+ * Record the images of every successful capture in the baseline manifest
+ */
+async function recordBaselines(
+  manifestService: BaselineManifestService,
+  screenshotService: ScreenshotService,
+  config: VrtConfig,
+  scenarios: Scenario[],
+  viewportMap: Map<string, Viewport>,
+  successes: Map<string, CapturedScreenshot>,
+  apiGeneratedAt: string
+): Promise<void> {
+  const browserVersions = new Map<BrowserEngine, string>();
+
+  for (const scenario of scenarios) {
+    for (const viewportKey of scenario.viewport_keys) {
+      const viewport = viewportMap.get(viewportKey);
+      if (!viewport) {
+        continue;
+      }
+
+      for (const browser of resolveBrowsers(viewport, config)) {
+        const capture = successes.get(`${scenario.id}__${getBrowserViewportKey(viewportKey, browser)}`);
+        if (!capture) {
+          continue;
+        }
+
+        if (!browserVersions.has(browser)) {
+          browserVersions.set(browser, await screenshotService.getBrowserVersion(browser));
+        }
+
+        const browserVersion = browserVersions.get(browser) as string;
+
+        manifestService.record(
+          capture.tiles ?? [capture.path],
+          createCaptureInfo(scenario, viewport, browser, browserVersion, apiGeneratedAt)
+        );
+        for (const checkpoint of capture.checkpoints ?? []) {
+          manifestService.record(
+            checkpoint.tiles ?? [checkpoint.path],
+            createCaptureInfo(scenario, viewport, browser, browserVersion, apiGeneratedAt, checkpoint.name)
+          );
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Capture every candidate baseline again and compare the captures with the candidate
+ * Runs on the configured number of workers and returns the images that differed
+ */
+async function checkBaselineStability(
+  screenshotService: ScreenshotService,
+  config: VrtConfig,
+  scenarios: Scenario[],
+  viewportMap: Map<string, Viewport>,
+  successes: Map<string, CapturedScreenshot>,
+  captures: number,
+  onProgress: (completed: number, total: number) => void
+): Promise<UnstableBaseline[]> {
+  const stabilityService = new StabilityService(config, screenshotService, new ComparisonService(config));
+  const tasks: { key: string; target: StabilityTarget; capture: CapturedScreenshot }[] = [];
+
+  for (const scenario of scenarios) {
+    for (const viewportKey of scenario.viewport_keys) {
+      const viewport = viewportMap.get(viewportKey);
+      if (!viewport) {
+        continue;
+      }
+
+      for (const browser of resolveBrowsers(viewport, config)) {
+        const key = `${scenario.id}__${getBrowserViewportKey(viewportKey, browser)}`;
+        const capture = successes.get(key);
+        if (capture) {
+          tasks.push({ key, target: { scenario, viewport, browser }, capture });
+        }
+      }
+    }
+  }
+
+  const unstable: UnstableBaseline[] = [];
+  let taskIndex = 0;
+  let completed = 0;
+
+  const worker = async (): Promise<void> => {
+    while (taskIndex < tasks.length) {
+      const { key, target, capture } = tasks[taskIndex++];
+      const results = await stabilityService.check(target, capture, captures);
+
+      for (const [checkpoint, result] of results) {
+        if (!result.stable) {
+          const browser = target.browser === DEFAULT_BROWSER ? '' : ` [${target.browser}]`;
+          unstable.push({
+            key,
+            scenarioId: target.scenario.id,
+            viewport: target.viewport.machine_name,
+            browser: target.browser,
+            name: `${target.scenario.title} @ ${target.viewport.machine_name}${browser}${checkpoint ? ` » ${checkpoint}` : ''}`,
+            result,
+          });
+        }
+      }
+
+      onProgress(++completed, tasks.length);
+    }
+  };
+
+  try {
+    const numWorkers = Math.min(config.playwright.workers, tasks.length);
+    await Promise.all(Array.from({ length: numWorkers }, () => worker()));
+  } finally {
+    stabilityService.cleanup();
+  }
+
+  return unstable;
+}
+
 export interface GenerateBaselineOptions {
   config?: string;
   scenario?: string[];
   viewport?: string[];
   headed?: boolean;
   failed?: boolean;
+  // Capture every baseline this many times and skip the ones that differ between captures
+  stabilityCheck?: number;
+  // Save baselines that failed the stability check instead of skipping them
+  allowFlaky?: boolean;
+  // Only capture this machine's share of the baselines
+  shard?: Shard;
 }
 
 export async function generateBaseline(options: GenerateBaselineOptions): Promise<void> {
@@ -56,7 +257,7 @@ export async function generateBaseline(options: GenerateBaselineOptions): Promis
 
     // Handle --failed flag
     let scenarioFilter = options.scenario;
-    let viewportFilter = options.viewport;
+    const viewportFilter = options.viewport;
     const isFailedMode = options.failed;
 
     if (isFailedMode) {
@@ -119,17 +320,29 @@ export async function generateBaseline(options: GenerateBaselineOptions): Promis
       viewportMap.set(viewport.machine_name, viewport);
     }
 
-    // Calculate total screenshots to capture
-    let totalScreenshots = 0;
+    // Calculate total screenshots to capture (with --shard, only this machine's share)
+    const captureKeys: string[] = [];
     for (const scenario of payload.scenarios) {
-      totalScreenshots += scenario.viewport_keys.length;
+      for (const viewportKey of scenario.viewport_keys) {
+        const viewport = viewportMap.get(viewportKey);
+        if (viewport) {
+          for (const browser of resolveBrowsers(viewport, config)) {
+            captureKeys.push(`${scenario.id}|${getBrowserViewportKey(viewportKey, browser)}`);
+          }
+        }
+      }
     }
+    const totalScreenshots = selectShard(captureKeys, options.shard, (key) => key).length;
 
     console.log();
     console.log(chalk.cyan('Generating baselines:'));
     console.log(chalk.cyan(`  Scenarios: ${payload.scenarios.length}`));
     console.log(chalk.cyan(`  Viewports: ${payload.viewports.length}`));
     console.log(chalk.cyan(`  Total screenshots: ${totalScreenshots}`));
+    if (options.shard) {
+      console.log(chalk.cyan(`  Shard: ${formatShard(options.shard)} (${totalScreenshots} of ${captureKeys.length} screenshots)`));
+    }
+    console.log(chalk.cyan(`  Browsers: ${config.playwright.browsers.join(', ')}`));
     console.log(chalk.cyan(`  Workers: ${config.playwright.workers}`));
     console.log(chalk.cyan(`  Output directory: ${config.baselineDir}`));
 
@@ -141,6 +354,10 @@ export async function generateBaseline(options: GenerateBaselineOptions): Promis
       console.log(chalk.yellow(`  Browser: Headed mode (visible)`));
     }
 
+    if (options.stabilityCheck) {
+      console.log(chalk.yellow(`  Stability check: ${options.stabilityCheck} captures per baseline`));
+    }
+
     console.log();
 
     // Apply baselineDomain transformation if configured
@@ -151,17 +368,22 @@ export async function generateBaseline(options: GenerateBaselineOptions): Promis
         }))
       : payload.scenarios;
 
-    // Clean existing baselines (skip when using --failed to preserve other baselines)
-    if (!isFailedMode) {
+    const manifestService = new BaselineManifestService(config);
+
+    // Clean existing baselines (skip when using --failed or --shard to preserve other baselines)
+    if (!isFailedMode && !options.shard) {
       spinner.start('Cleaning existing baselines...');
       const removedCount = cleanBaselineDirectory(config.baselineDir);
+      manifestService.clear();
       if (removedCount > 0) {
         spinner.succeed(`Removed ${removedCount} existing baseline(s)`);
       } else {
         spinner.succeed('Baseline directory is clean');
       }
-    } else {
+    } else if (isFailedMode) {
       console.log(chalk.cyan('  (Skipping clean - only regenerating failed baselines)'));
+    } else {
+      console.log(chalk.cyan('  (Skipping clean - baselines of other shards are kept)'));
     }
 
     // Initialize screenshot service
@@ -171,6 +393,12 @@ export async function generateBaseline(options: GenerateBaselineOptions): Promis
     await screenshotService.initialize();
     spinner.succeed('Browser initialized');
 
+    if (config.auth.strategy !== 'none') {
+      spinner.start('Logging in...');
+      await screenshotService.authenticate(config.baselineDomain);
+      spinner.succeed('Logged in');
+    }
+
     let captured = 0;
     let failed = 0;
     const startTime = Date.now();
@@ -180,22 +408,28 @@ export async function generateBaseline(options: GenerateBaselineOptions): Promis
       current: number,
       total: number,
       scenario: Scenario,
-      viewport: Viewport
+      viewport: Viewport,
+      browser: BrowserEngine
     ) => {
-      spinner.text = `Capturing ${current}/${total}: ${scenario.title} @ ${viewport.label}\n  → ${scenario.url}`;
+      spinner.text = `Capturing ${current}/${total}: ${scenario.title} @ ${viewport.label} (${browser})\n  → ${scenario.url}`;
     };
 
     spinner.start(`Capturing 0/${totalScreenshots}...`);
 
     let failedTests: FailedTest[] = [];
+    let unstable: UnstableBaseline[] = [];
+
+    // Without a stability check, captures are written straight to the baseline directory
+    const candidatesDir = options.stabilityCheck ? path.join(config.outputDir, CANDIDATES_DIR) : config.baselineDir;
 
     try {
       // Capture all screenshots
       const results = await screenshotService.captureAll(
         scenariosToCapture,
         payload.viewports,
-        config.baselineDir,
-        onProgress
+        candidatesDir,
+        onProgress,
+        options.shard
       );
 
       captured = results.successes.size;
@@ -205,14 +439,73 @@ export async function generateBaseline(options: GenerateBaselineOptions): Promis
       failedTests = results.failures.map(f => ({
         scenarioId: f.scenarioId,
         viewport: f.viewport,
+        browser: f.browser,
       }));
 
       spinner.succeed(`Captured ${captured}/${totalScreenshots} screenshots`);
+
+      let baselines = results.successes;
+      if (options.stabilityCheck) {
+        if (results.successes.size > 0) {
+          spinner.start(`Checking stability 0/${results.successes.size}...`);
+          unstable = await checkBaselineStability(
+            screenshotService,
+            config,
+            scenariosToCapture,
+            viewportMap,
+            results.successes,
+            options.stabilityCheck,
+            (completed, total) => {
+              spinner.text = `Checking stability ${completed}/${total}...`;
+            }
+          );
+
+          if (unstable.length > 0) {
+            spinner.warn(`${unstable.length} baseline image(s) differed between captures`);
+          } else {
+            spinner.succeed(`All baselines were identical across ${options.stabilityCheck} captures`);
+          }
+        }
+
+        // A capture with any flaky image (final state or checkpoint) isn't saved, unless --allow-flaky is set
+        // Skipped captures go to the failed list, so "baseline:failed" retries them
+        const skipped = new Set<string>();
+        for (const entry of options.allowFlaky ? [] : unstable) {
+          if (!skipped.has(entry.key)) {
+            skipped.add(entry.key);
+            failedTests.push({ scenarioId: entry.scenarioId, viewport: entry.viewport, browser: entry.browser });
+          }
+        }
+
+        baselines = promoteCandidates(
+          new ComparisonService(config),
+          config,
+          scenariosToCapture,
+          viewportMap,
+          results.successes,
+          skipped
+        );
+        captured = baselines.size;
+      }
+
+      await recordBaselines(
+        manifestService,
+        screenshotService,
+        config,
+        scenariosToCapture,
+        viewportMap,
+        baselines,
+        payload.meta.generated_at
+      );
+      manifestService.save();
     } catch (error) {
       spinner.fail('Error during capture');
       throw error;
     } finally {
       await screenshotService.close();
+      if (options.stabilityCheck) {
+        fs.rmSync(candidatesDir, { recursive: true, force: true });
+      }
     }
 
     const duration = ((Date.now() - startTime) / 1000).toFixed(2);
@@ -227,15 +520,43 @@ export async function generateBaseline(options: GenerateBaselineOptions): Promis
       console.log(`  ${chalk.red('Failed:')} ${failed}`);
     }
 
+    if (options.stabilityCheck) {
+      console.log(`  ${chalk.yellow('Flaky:')} ${unstable.length}`);
+    }
+
     console.log(`  ${chalk.cyan('Duration:')} ${duration}s`);
     console.log(`  ${chalk.cyan('Output:')} ${config.baselineDir}`);
     console.log();
 
+    // Flaky baselines are skipped, or saved with --allow-flaky but will fail comparisons at random
+    if (unstable.length > 0) {
+      console.log(chalk.yellow.bold(options.allowFlaky ? 'Flaky baselines (saved with --allow-flaky):' : 'Flaky baselines (not saved):'));
+      for (const { name, result } of unstable) {
+        console.log(`  ${chalk.yellow('!')} ${name}`);
+        console.log(`      ${describeInstability(result)}`);
+        if (result.diffPath) {
+          console.log(`      Unstable diff: ${result.diffPath}`);
+        }
+        const regions = [...(result.regions ?? [])].sort((a, b) => b.pixels - a.pixels);
+        for (const region of regions.slice(0, MAX_PRINTED_REGIONS)) {
+          console.log(
+            `      Region #${region.index} at ${region.x},${region.y} (${region.width}x${region.height}, ${region.pixels.toLocaleString()} pixels)`
+          );
+        }
+        if (regions.length > MAX_PRINTED_REGIONS) {
+          console.log(`      ... ${regions.length - MAX_PRINTED_REGIONS} more`);
+        }
+      }
+      console.log();
+      console.log(chalk.yellow('Hide the changing content with mask_selectors or ignore_regions, then regenerate these baselines.'));
+      console.log();
+    }
+
     // Save or clear failed tests
     if (failedTests.length > 0) {
       saveFailedTests(failedTests);
       console.log(
-        chalk.yellow(`Some screenshots failed to capture. ${failedTests.length} failure(s) saved.`)
+        chalk.yellow(`Some baselines failed to capture or were flaky. ${failedTests.length} failure(s) saved.`)
       );
       console.log(chalk.yellow('Run "npm run baseline:failed" to retry only the failed captures.'));
       process.exit(1);
@@ -0,0 +1,232 @@
+/**
+ * History Command
+ * Shows pass-rate trends and the most often failing tests across recorded runs
+ */
+
+import chalk from 'chalk';
+import { HistoryService } from '../services/history';
+import { DEFAULT_BROWSER } from '../utils/browser';
+import { HistoryRun, HistoryTestEntry } from '../types';
+
+export interface HistoryOptions {
+  limit: number;
+  top: number;
+}
+
+type TestTrend = 'failing' | 'regressed' | 'flaky' | 'fixed';
+
+/**
+ * Outcomes of one scenario/viewport/browser/checkpoint across the runs it appeared in
+ */
+interface TestHistory {
+  name: string;
+  // Oldest first
+  outcomes: { run: HistoryRun; entry: HistoryTestEntry }[];
+  failures: number;
+}
+
+const TREND_LABELS: Record<TestTrend, string> = {
+  failing: chalk.red('failing every run'),
+  regressed: chalk.red('regressed'),
+  flaky: chalk.yellow('flaky'),
+  fixed: chalk.green('fixed'),
+};
+
+const BAR_WIDTH = 20;
+
+/**
+ * Build the display name of a recorded test, which doubles as its grouping key
+ */
+function describeEntry(entry: HistoryTestEntry): string {
+  const browser = entry.browser && entry.browser !== DEFAULT_BROWSER ? ` [${entry.browser}]` : '';
+  const checkpoint = entry.checkpoint ? ` » ${entry.checkpoint}` : '';
+  return `${entry.scenarioId} @ ${entry.viewport}${browser}${checkpoint}`;
+}
+
+/**
+ * Percentage of passed tests in a run
+ */
+function getPassRate(run: HistoryRun): number {
+  return run.total > 0 ? (run.passed / run.total) * 100 : 100;
+}
+
+/**
+ * Render a pass rate as a fixed-width bar
+ */
+function renderBar(passRate: number): string {
+  const filled = Math.round((passRate / 100) * BAR_WIDTH);
+  const bar = '█'.repeat(filled) + '░'.repeat(BAR_WIDTH - filled);
+  return passRate === 100 ? chalk.green(bar) : passRate >= 90 ? chalk.yellow(bar) : chalk.red(bar);
+}
+
+/**
+ * Describe the options that narrowed a run, so partial runs aren't mistaken for regressions
+ */
+function describeFilters(run: HistoryRun): string {
+  const parts: string[] = [];
+  if (run.filters?.failedOnly) {
+    parts.push('--failed');
+  }
+  if (run.filters?.scenario) {
+    parts.push(`--scenario ${run.filters.scenario.join(' ')}`);
+  }
+  if (run.filters?.viewport) {
+    parts.push(`--viewport ${run.filters.viewport.join(' ')}`);
+  }
+  return parts.length > 0 ? chalk.gray(` (${parts.join(', ')})`) : '';
+}
+
+/**
+ * Format a duration in milliseconds as e.g. "1m 12s"
+ */
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * Format an ISO timestamp as local "YYYY-MM-DD HH:MM"
+ */
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+/**
+ * Group the outcomes of every test across runs
+ */
+function collectTestHistories(runs: HistoryRun[]): TestHistory[] {
+  const histories = new Map<string, TestHistory>();
+
+  for (const run of runs) {
+    for (const entry of run.tests) {
+      const name = describeEntry(entry);
+      let history = histories.get(name);
+      if (!history) {
+        history = { name, outcomes: [], failures: 0 };
+        histories.set(name, history);
+      }
+
+      history.outcomes.push({ run, entry });
+      if (!entry.passed) {
+        history.failures++;
+      }
+    }
+  }
+
+  return [...histories.values()];
+}
+
+/**
+ * Classify how a test's outcome changed over time:
+ * failing in every run, failing since one change (regressed), passing since one change (fixed),
+ * or flipping back and forth (flaky)
+ */
+function getTrend(history: TestHistory): TestTrend {
+  if (history.failures === history.outcomes.length) {
+    return 'failing';
+  }
+
+  let flips = 0;
+  for (let i = 1; i < history.outcomes.length; i++) {
+    if (history.outcomes[i].entry.passed !== history.outcomes[i - 1].entry.passed) {
+      flips++;
+    }
+  }
+
+  const lastPassed = history.outcomes[history.outcomes.length - 1].entry.passed;
+  if (flips === 1) {
+    return lastPassed ? 'fixed' : 'regressed';
+  }
+  return 'flaky';
+}
+
+/**
+ * Show pass-rate trends and the most often failing tests of the recorded runs
+ */
+export async function showHistory(options: HistoryOptions): Promise<void> {
+  try {
+    const historyService = new HistoryService();
+    const runs = historyService.list(options.limit);
+
+    if (runs.length === 0) {
+      console.log(chalk.yellow('No run history yet. Run "npm run test" to record the first run.'));
+      return;
+    }
+
+    console.log();
+    console.log(chalk.bold(`Recent Runs (last ${runs.length}):`));
+    console.log();
+
+    for (const run of runs) {
+      const passRate = getPassRate(run);
+      console.log(
+        `  ${formatDate(run.startedAt)}  ${renderBar(passRate)}  ` +
+          `${String(run.passed).padStart(4)}/${String(run.total).padEnd(4)} ` +
+          `${passRate.toFixed(1).padStart(5)}%  ${formatDuration(run.duration).padStart(7)}` +
+          describeFilters(run)
+      );
+    }
+
+    // Compare the older and newer half of the window to show the direction of the trend
+    const average = (list: HistoryRun[]) => list.reduce((sum, run) => sum + getPassRate(run), 0) / list.length;
+    const overall = average(runs);
+    console.log();
+    console.log(`  Average pass rate: ${chalk.bold(`${overall.toFixed(1)}%`)}`);
+
+    if (runs.length >= 4) {
+      const half = Math.floor(runs.length / 2);
+      const change = average(runs.slice(-half)) - average(runs.slice(0, half));
+      const changeText = `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+      const trend = Math.abs(change) < 0.1 ? chalk.gray('stable') : change > 0 ? chalk.green(`↑ ${changeText}`) : chalk.red(`↓ ${changeText}`);
+      console.log(`  Trend (last ${half} vs previous ${half} runs): ${trend}`);
+    }
+
+    const failing = collectTestHistories(runs)
+      .filter((history) => history.failures > 0)
+      .sort((a, b) => b.failures / b.outcomes.length - a.failures / a.outcomes.length || b.failures - a.failures)
+      .slice(0, options.top);
+
+    console.log();
+    if (failing.length === 0) {
+      console.log(chalk.green('No failures in the recorded runs.'));
+      console.log();
+      return;
+    }
+
+    console.log(chalk.bold('Most Often Failing:'));
+    console.log();
+
+    for (const history of failing) {
+      const failedOutcomes = history.outcomes.filter(({ entry }) => !entry.passed);
+      const lastFailure = failedOutcomes[failedOutcomes.length - 1];
+      const diffs = failedOutcomes
+        .map(({ entry }) => entry.diffPercentage)
+        .filter((value): value is number => value !== undefined);
+
+      console.log(`  ${chalk.red('✗')} ${history.name}`);
+      console.log(
+        `      Failed ${history.failures} of ${history.outcomes.length} runs · ${TREND_LABELS[getTrend(history)]}` +
+          ` · last failed ${formatDate(lastFailure.run.startedAt)}`
+      );
+      if (diffs.length > 0) {
+        const averageDiff = diffs.reduce((sum, value) => sum + value, 0) / diffs.length;
+        console.log(`      Average diff when failing: ${averageDiff.toFixed(2)}%`);
+      }
+      if (lastFailure.entry.error) {
+        console.log(`      ${chalk.red('Last error:')} ${lastFailure.entry.error}`);
+      }
+    }
+
+    console.log();
+  } catch (error) {
+    if (error instanceof Error) {
+      console.log(chalk.red('Error:'), error.message);
+    } else {
+      console.log(chalk.red('Unknown error occurred'));
+    }
+
+    process.exit(1);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Merge Results Command
+ * Combines the results of --shard runs into one report and one failed tests list
+ */
+
+import * as path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { generateReport, cleanReport } from '../report/generator';
+import { writeExports } from '../report/exporters';
+import { saveFailedTests, clearFailedTests } from '../services/failed-tracker';
+import { HistoryService } from '../services/history';
+import { ShardResultsService } from '../services/shard-results';
+import { printResults, toFailedTests, toReportResults } from './run-tests';
+import { ReporterFormat } from '../types';
+
+export interface MergeResultsOptions {
+  reporter?: ReporterFormat[];
+  junitOutput?: string;
+  jsonOutput?: string;
+  markdownOutput?: string;
+}
+
+/**
+ * Combine shard result files (all reports/shard-*-of-*.json files when none are given)
+ */
+export async function mergeResults(files: string[], options: MergeResultsOptions): Promise<void> {
+  const spinner = ora('Loading shard results...').start();
+
+  try {
+    const shardResultsService = new ShardResultsService();
+    const resultFiles = files.length > 0 ? files : shardResultsService.find();
+    if (resultFiles.length === 0) {
+      spinner.fail('No shard results found');
+      console.log();
+      console.log(chalk.yellow('Run "npm run test -- --shard 1/2" (and the other shards) first, or pass the result files.'));
+      process.exit(1);
+    }
+
+    const { summary, startedAt, missingShards } = shardResultsService.merge(resultFiles);
+    spinner.succeed(`Merged ${resultFiles.length} shard result file(s) with ${summary.total} tests`);
+
+    if (missingShards.length > 0) {
+      console.log(chalk.yellow(`Warning: No results for shard(s) ${missingShards.join(', ')}. The report is incomplete.`));
+    }
+
+    // The merged run replaces the failed list, so --failed and approve cover every shard
+    const failedTests = toFailedTests(summary.results);
+    if (failedTests.length > 0) {
+      saveFailedTests(failedTests);
+    } else {
+      clearFailedTests();
+    }
+
+    // Only complete runs are recorded; partial ones would look like regressions in the trend
+    if (missingShards.length === 0) {
+      new HistoryService().record(summary, startedAt);
+    }
+
+    spinner.start('Generating HTML report...');
+    const reportDir = path.join(process.cwd(), 'vrt-report');
+    cleanReport(reportDir);
+
+    const reportResult = generateReport(toReportResults(summary.results), {
+      outputDir: reportDir,
+      title: 'Visual Regression Report',
+      copyImages: true,
+    });
+
+    spinner.succeed(`Report generated: ${reportResult.reportPath}`);
+
+    let exportPaths: Record<string, string> = {};
+    if (options.reporter && options.reporter.length > 0) {
+      spinner.start('Writing result exports...');
+      exportPaths = writeExports(summary, options.reporter, {
+        junit: options.junitOutput,
+        json: options.jsonOutput,
+        markdown: options.markdownOutput,
+      });
+      spinner.succeed(`Result exports written: ${Object.keys(exportPaths).join(', ')}`);
+    }
+
+    console.log();
+    printResults(summary.results, summary);
+
+    console.log();
+    console.log(chalk.cyan('View the detailed report:'));
+    console.log(chalk.cyan(`  npm run report`));
+    console.log(chalk.cyan(`  or open: ${reportResult.reportPath}`));
+
+    for (const [format, exportPath] of Object.entries(exportPaths)) {
+      console.log(chalk.gray(`  ${format}: ${exportPath}`));
+    }
+
+    if (summary.failed > 0 || missingShards.length > 0) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spinner.fail('Error');
+    console.log();
+
+    if (error instanceof Error) {
+      console.log(chalk.red('Error:'), error.message);
+    } else {
+      console.log(chalk.red('Unknown error occurred'));
+    }
+
+    process.exit(1);
+  }
+}
@@ -8,12 +8,38 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { loadConfig } from '../config/loader';
 import { ApiService } from '../services/api';
-import { ScreenshotService } from '../services/screenshot';
+import { ScreenshotService, CapturedScreenshot, CapturedCheckpoint } from '../services/screenshot';
 import { ComparisonService } from '../services/comparison';
+import { BaselineManifestService, createCaptureInfo } from '../services/baseline-manifest';
 import { generateReport, cleanReport } from '../report/generator';
+import { writeExports } from '../report/exporters';
 import { saveFailedTests, loadFailedTests, clearFailedTests, FailedTest } from '../services/failed-tracker';
+import { HistoryService } from '../services/history';
+import { StabilityService, describeInstability } from '../services/stability';
+import { ShardResultsService } from '../services/shard-results';
 import { replaceDomain } from '../utils/url';
-import { Scenario, Viewport, TestResult, TestRunSummary, ReportTestResult } from '../types';
+import { resolveEngineOptions, resolveThresholds } from '../utils/thresholds';
+import { getBrowserViewportKey, resolveBrowsers } from '../utils/browser';
+import { getCheckpointViewportKey, getScenarioCheckpoints } from '../utils/interactions';
+import { getArtifactFilename, getTileFilename } from '../utils/artifact-name';
+import { formatShard, selectShard } from '../utils/shard';
+import {
+  Scenario,
+  Viewport,
+  TestResult,
+  TestRunSummary,
+  ReporterFormat,
+  Shard,
+  ReportTestResult,
+  BrowserEngine,
+  DiffRegion,
+  StabilityResult,
+} from '../types';
+
+type CapturedImage = CapturedScreenshot | CapturedCheckpoint;
+
+// Regions listed per failed test in the console; the report lists all of them
+const MAX_PRINTED_REGIONS = 3;
 
 export interface RunTestsOptions {
   config?: string;
@@ -22,6 +48,15 @@ export interface RunTestsOptions {
   updateBaseline?: boolean;
   headed?: boolean;
   failed?: boolean;
+  // Capture every image this many times and flag the ones that differ between captures
+  stabilityCheck?: number;
+  // Machine-readable exports to write next to the HTML report
+  reporter?: ReporterFormat[];
+  junitOutput?: string;
+  jsonOutput?: string;
+  markdownOutput?: string;
+  // Only run this machine's share of the tests
+  shard?: Shard;
 }
 
 export async function runTests(options: RunTestsOptions): Promise<void> {
@@ -34,7 +69,7 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
 
     // Handle --failed flag
     let scenarioFilter = options.scenario;
-    let viewportFilter = options.viewport;
+    const viewportFilter = options.viewport;
 
     if (options.failed) {
       const failedTests = loadFailedTests();
@@ -96,35 +131,6 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
       viewportMap.set(viewport.machine_name, viewport);
     }
 
-    // Calculate total tests
-    let totalTests = 0;
-    for (const scenario of payload.scenarios) {
-      totalTests += scenario.viewport_keys.length;
-    }
-
-    console.log();
-    console.log(chalk.cyan('Running visual regression tests:'));
-    console.log(chalk.cyan(`  Scenarios: ${payload.scenarios.length}`));
-    console.log(chalk.cyan(`  Viewports: ${payload.viewports.length}`));
-    console.log(chalk.cyan(`  Total tests: ${totalTests}`));
-    console.log(chalk.cyan(`  Workers: ${config.playwright.workers}`));
-    console.log(chalk.cyan(`  Baseline directory: ${config.baselineDir}`));
-    console.log(chalk.cyan(`  Output directory: ${config.outputDir}`));
-
-    if (config.testDomain) {
-      console.log(chalk.magenta(`  Test domain: ${config.testDomain}`));
-    }
-
-    if (options.updateBaseline) {
-      console.log(chalk.yellow(`  Mode: Update baselines on pass`));
-    }
-
-    if (options.headed) {
-      console.log(chalk.yellow(`  Browser: Headed mode (visible)`));
-    }
-
-    console.log();
-
     // Compute baseline URLs for each scenario (using original API URL + baselineDomain)
     const baselineUrlMap = new Map<string, string>();
     for (const scenario of payload.scenarios) {
@@ -142,36 +148,34 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
         }))
       : payload.scenarios;
 
-    // Initialize services
-    spinner.start('Initializing browser...');
-    const headless = options.headed ? false : config.playwright.headless;
-    const screenshotService = new ScreenshotService(config, headless);
-    const comparisonService = new ComparisonService(config);
-    await screenshotService.initialize();
-    spinner.succeed('Browser initialized');
-
-    // Clean up previous diffs
-    comparisonService.cleanDiffs();
-
-    const results: TestResult[] = [];
-    const startTime = Date.now();
-
     // Build task queue for parallel processing
     interface TestTask {
       scenario: Scenario;
       viewport: Viewport;
       viewportKey: string;
+      browser: BrowserEngine;
+      // Viewport key including the engine suffix, used for artifact filenames
+      artifactKey: string;
     }
 
-    const tasks: TestTask[] = [];
+    const allTasks: TestTask[] = [];
+    const missingViewportResults: TestResult[] = [];
     for (const scenario of scenariosToTest) {
       for (const viewportKey of scenario.viewport_keys) {
         const viewport = viewportMap.get(viewportKey);
         if (viewport) {
-          tasks.push({ scenario, viewport, viewportKey });
+          for (const browser of resolveBrowsers(viewport, config)) {
+            allTasks.push({
+              scenario,
+              viewport,
+              viewportKey,
+              browser,
+              artifactKey: getBrowserViewportKey(viewportKey, browser),
+            });
+          }
         } else {
           // Handle missing viewport immediately
-          results.push({
+          missingViewportResults.push({
             scenarioId: scenario.id,
             scenarioTitle: scenario.title,
             scenarioUrl: scenario.url,
@@ -184,6 +188,75 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
       }
     }
 
+    // With --shard, only this machine's share of the tasks is run
+    const tasks = selectShard(allTasks, options.shard, (task) => `${task.scenario.id}|${task.artifactKey}`);
+    const shardMissingViewports = selectShard(
+      missingViewportResults,
+      options.shard,
+      (result) => `${result.scenarioId}|${result.viewport}`
+    );
+
+    // Calculate total tests (one per scenario, viewport, browser engine and checkpoint)
+    let totalTests = shardMissingViewports.length;
+    for (const task of tasks) {
+      totalTests += getScenarioCheckpoints(task.scenario).length + 1;
+    }
+
+    console.log();
+    console.log(chalk.cyan('Running visual regression tests:'));
+    console.log(chalk.cyan(`  Scenarios: ${payload.scenarios.length}`));
+    console.log(chalk.cyan(`  Viewports: ${payload.viewports.length}`));
+    console.log(chalk.cyan(`  Total tests: ${totalTests}`));
+    if (options.shard) {
+      console.log(chalk.cyan(`  Shard: ${formatShard(options.shard)} (${tasks.length} of ${allTasks.length} captures)`));
+    }
+    console.log(chalk.cyan(`  Browsers: ${config.playwright.browsers.join(', ')}`));
+    console.log(chalk.cyan(`  Workers: ${config.playwright.workers}`));
+    console.log(chalk.cyan(`  Baseline directory: ${config.baselineDir}`));
+    console.log(chalk.cyan(`  Output directory: ${config.outputDir}`));
+
+    if (config.testDomain) {
+      console.log(chalk.magenta(`  Test domain: ${config.testDomain}`));
+    }
+
+    if (options.updateBaseline) {
+      console.log(chalk.yellow(`  Mode: Update baselines of failed and missing tests`));
+    }
+
+    if (options.headed) {
+      console.log(chalk.yellow(`  Browser: Headed mode (visible)`));
+    }
+
+    if (options.stabilityCheck) {
+      console.log(chalk.yellow(`  Stability check: ${options.stabilityCheck} captures per test`));
+    }
+
+    console.log();
+
+    // Initialize services
+    spinner.start('Initializing browser...');
+    const headless = options.headed ? false : config.playwright.headless;
+    const screenshotService = new ScreenshotService(config, headless);
+    const comparisonService = new ComparisonService(config);
+    const manifestService = new BaselineManifestService(config);
+    const stabilityService = options.stabilityCheck
+      ? new StabilityService(config, screenshotService, comparisonService)
+      : null;
+    await screenshotService.initialize();
+    spinner.succeed('Browser initialized');
+
+    if (config.auth.strategy !== 'none') {
+      spinner.start('Logging in...');
+      await screenshotService.authenticate(config.testDomain);
+      spinner.succeed('Logged in');
+    }
+
+    // Clean up previous diffs
+    comparisonService.cleanDiffs();
+
+    const results: TestResult[] = [...shardMissingViewports];
+    const startTime = Date.now();
+
     // Shared counters for progress tracking
     const counters = {
       completed: 0,
@@ -193,7 +266,7 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
     };
 
     // Helper to update spinner with optional scenario info for debugging
-    const updateSpinner = (currentScenario?: Scenario, currentViewport?: Viewport) => {
+    const updateSpinner = (currentScenario?: Scenario, currentViewport?: Viewport, currentBrowser?: BrowserEngine) => {
       const passedText = chalk.green(`Passed: ${counters.passed}`);
       const failedText = counters.failed > 0 ? chalk.red(`Failed: ${counters.failed}`) : `Failed: ${counters.failed}`;
 
@@ -201,13 +274,148 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
 
       // Show current scenario being processed for debugging hangs
       if (currentScenario && currentViewport) {
-        statusLine += `\n  → ${currentScenario.title} @ ${currentViewport.label}`;
+        statusLine += `\n  → ${currentScenario.title} @ ${currentViewport.label} (${currentBrowser})`;
         statusLine += `\n  → ${currentScenario.url}`;
       }
 
       spinner.text = statusLine;
     };
 
+    // Browser versions are compared against the ones recorded in the baseline manifest
+    const browserVersions = new Map<BrowserEngine, Promise<string>>();
+    const getBrowserVersion = (browser: BrowserEngine): Promise<string> => {
+      if (!browserVersions.has(browser)) {
+        browserVersions.set(browser, screenshotService.getBrowserVersion(browser));
+      }
+      return browserVersions.get(browser) as Promise<string>;
+    };
+
+    // Compare one captured image (final state or checkpoint) against its baseline
+    const evaluateCapture = async (
+      task: TestTask,
+      captured: CapturedImage,
+      artifactKey: string,
+      checkpoint?: string,
+      stability?: StabilityResult
+    ): Promise<TestResult> => {
+      const screenshotPath = captured.path;
+      const browserVersion = await getBrowserVersion(task.browser);
+      const capture = createCaptureInfo(
+        task.scenario,
+        task.viewport,
+        task.browser,
+        browserVersion,
+        payload.meta.generated_at,
+        checkpoint
+      );
+
+      const hasBaseline = captured.tiles
+        ? comparisonService.tiledBaselineCount(task.scenario.id, artifactKey) > 0
+        : comparisonService.baselineExists(task.scenario.id, artifactKey);
+
+      const updateBaseline = (): string => {
+        const baselinePaths = captured.tiles
+          ? comparisonService.copyTilesToBaseline(captured.tiles, task.scenario.id, artifactKey)
+          : [comparisonService.copyToBaseline(screenshotPath, task.scenario.id, artifactKey)];
+
+        manifestService.record(baselinePaths, capture);
+        return baselinePaths[0];
+      };
+
+      // Images that differ between captures are never promoted to baselines
+      const canUpdateBaseline = options.updateBaseline && (stability?.stable ?? true);
+
+      // Check if baseline exists
+      if (!hasBaseline) {
+        if (canUpdateBaseline) {
+          const baselinePath = updateBaseline();
+          return {
+            scenarioId: task.scenario.id,
+            scenarioTitle: task.scenario.title,
+            scenarioUrl: task.scenario.url,
+            baselineUrl: baselineUrlMap.get(task.scenario.id),
+            viewport: task.viewportKey,
+            browser: task.browser,
+            checkpoint,
+            passed: true,
+            screenshotPath,
+            baselinePath,
+            tileCount: captured.tiles?.length,
+            stability,
+          };
+        }
+
+        return {
+          scenarioId: task.scenario.id,
+          scenarioTitle: task.scenario.title,
+          scenarioUrl: task.scenario.url,
+          baselineUrl: baselineUrlMap.get(task.scenario.id),
+          viewport: task.viewportKey,
+          browser: task.browser,
+          checkpoint,
+          passed: false,
+          error: 'Baseline not found. Run generate-baseline first or use --update-baseline.',
+          screenshotPath,
+          tileCount: captured.tiles?.length,
+          capture,
+          stability,
+        };
+      }
+
+      // Ignore regions are declared in page CSS pixels and scaled per capture
+      const compareOptions = {
+        ignoreRegions: task.scenario.ignore_regions,
+        dimensionPolicy: task.scenario.dimension_policy,
+        thresholds: resolveThresholds(config.comparison, task.scenario, task.viewportKey),
+        engineOptions: resolveEngineOptions(config.comparison, task.scenario.id, task.viewportKey),
+        deviceScaleFactor: task.viewport.device_scale_factor,
+        tileHeight: captured.tileHeight,
+      };
+
+      // Compare with baseline immediately after capture
+      const comparisonResult = captured.tiles
+        ? await comparisonService.compareTiledScreenshot(
+            task.scenario.id,
+            artifactKey,
+            captured.tiles,
+            compareOptions
+          )
+        : await comparisonService.compareScreenshot(
+            task.scenario.id,
+            artifactKey,
+            screenshotPath,
+            compareOptions
+          );
+
+      // Report the plain viewport key; engine and checkpoint are tracked separately
+      comparisonResult.viewport = task.viewportKey;
+      comparisonResult.browser = task.browser;
+      comparisonResult.checkpoint = checkpoint;
+      comparisonResult.scenarioTitle = task.scenario.title;
+      comparisonResult.scenarioUrl = task.scenario.url;
+      comparisonResult.baselineUrl = baselineUrlMap.get(task.scenario.id);
+      comparisonResult.capture = capture;
+      comparisonResult.stability = stability;
+
+      const baselineWarnings = manifestService.findMismatches(
+        captured.tiles ? getTileFilename(task.scenario.id, artifactKey, 0) : getArtifactFilename(task.scenario.id, artifactKey),
+        task.viewport,
+        browserVersion
+      );
+      if (baselineWarnings.length > 0) {
+        comparisonResult.baselineWarnings = baselineWarnings;
+      }
+
+      // Failed images replace their baseline; the diff is kept so the report shows what changed
+      // Passing images keep theirs, so unchanged baselines aren't rewritten on every run
+      if (canUpdateBaseline && !comparisonResult.passed) {
+        updateBaseline();
+        return { ...comparisonResult, passed: true, warning: 'baseline-updated' };
+      }
+
+      return comparisonResult;
+    };
+
     // Worker function that captures and compares
     const processTask = async (): Promise<void> => {
       while (true) {
@@ -215,83 +423,69 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
         if (taskIdx >= tasks.length) break;
 
         const task = tasks[taskIdx];
-        let testResult: TestResult;
+        const taskResults: TestResult[] = [];
+        const taskStart = Date.now();
 
         // Update spinner to show current scenario being processed (helps debug hangs)
-        updateSpinner(task.scenario, task.viewport);
+        updateSpinner(task.scenario, task.viewport, task.browser);
 
         try {
-          // Capture screenshot
-          const screenshotPath = await screenshotService.captureWithRetry(
+          // Capture screenshot (a single image, or one image per tile) plus any checkpoints
+          const captured = await screenshotService.captureWithRetry(
             task.scenario,
             task.viewport,
-            config.outputDir
+            config.outputDir,
+            task.browser
           );
 
-          // Check if baseline exists
-          if (!comparisonService.baselineExists(task.scenario.id, task.viewportKey)) {
-            if (options.updateBaseline) {
-              comparisonService.copyToBaseline(screenshotPath, task.scenario.id, task.viewportKey);
-              testResult = {
-                scenarioId: task.scenario.id,
-                scenarioTitle: task.scenario.title,
-                scenarioUrl: task.scenario.url,
-                baselineUrl: baselineUrlMap.get(task.scenario.id),
-                viewport: task.viewportKey,
-                passed: true,
-                screenshotPath,
-                baselinePath: comparisonService.getBaselinePath(task.scenario.id, task.viewportKey),
-              };
-            } else {
-              testResult = {
-                scenarioId: task.scenario.id,
-                scenarioTitle: task.scenario.title,
-                scenarioUrl: task.scenario.url,
-                baselineUrl: baselineUrlMap.get(task.scenario.id),
-                viewport: task.viewportKey,
-                passed: false,
-                error: 'Baseline not found. Run generate-baseline first or use --update-baseline.',
-                screenshotPath,
-              };
-            }
-          } else {
-            // Compare with baseline immediately after capture
-            const comparisonResult = await comparisonService.compareScreenshot(
-              task.scenario.id,
-              task.viewportKey,
-              screenshotPath
+          // Capture again and compare the captures with each other before anything is compared or promoted
+          const stability = stabilityService
+            ? await stabilityService.check(task, captured, options.stabilityCheck as number)
+            : undefined;
+
+          for (const checkpoint of captured.checkpoints ?? []) {
+            taskResults.push(
+              await evaluateCapture(
+                task,
+                checkpoint,
+                getCheckpointViewportKey(task.artifactKey, checkpoint.name),
+                checkpoint.name,
+                stability?.get(checkpoint.name)
+              )
             );
-
-            comparisonResult.scenarioTitle = task.scenario.title;
-            comparisonResult.scenarioUrl = task.scenario.url;
-            comparisonResult.baselineUrl = baselineUrlMap.get(task.scenario.id);
-
-            if (options.updateBaseline && comparisonResult.passed) {
-              comparisonService.copyToBaseline(screenshotPath, task.scenario.id, task.viewportKey);
-            }
-
-            testResult = comparisonResult;
           }
+
+          taskResults.push(await evaluateCapture(task, captured, task.artifactKey, undefined, stability?.get('')));
         } catch (error) {
-          testResult = {
-            scenarioId: task.scenario.id,
-            scenarioTitle: task.scenario.title,
-            scenarioUrl: task.scenario.url,
-            baselineUrl: baselineUrlMap.get(task.scenario.id),
-            viewport: task.viewportKey,
-            passed: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          };
+          // A failed capture fails the final state and every checkpoint of the task
+          const checkpoints = [...getScenarioCheckpoints(task.scenario), undefined];
+          for (const checkpoint of checkpoints.slice(taskResults.length)) {
+            taskResults.push({
+              scenarioId: task.scenario.id,
+              scenarioTitle: task.scenario.title,
+              scenarioUrl: task.scenario.url,
+              baselineUrl: baselineUrlMap.get(task.scenario.id),
+              viewport: task.viewportKey,
+              browser: task.browser,
+              checkpoint,
+              passed: false,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
         }
 
         // Update counters and results
-        counters.completed++;
-        if (testResult.passed) {
-          counters.passed++;
-        } else {
-          counters.failed++;
+        const taskDuration = Date.now() - taskStart;
+        for (const testResult of taskResults) {
+          testResult.duration = taskDuration;
+          counters.completed++;
+          if (testResult.passed) {
+            counters.passed++;
+          } else {
+            counters.failed++;
+          }
+          results.push(testResult);
         }
-        results.push(testResult);
         updateSpinner();
       }
     };
@@ -307,10 +501,15 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
       }
       await Promise.all(workers);
 
+      if (options.updateBaseline) {
+        manifestService.save();
+      }
+
       const passedFinal = chalk.green(`Passed: ${counters.passed}`);
       const failedFinal = counters.failed > 0 ? chalk.red(`Failed: ${counters.failed}`) : `Failed: ${counters.failed}`;
       spinner.succeed(`Completed ${totalTests} tests | ${passedFinal} | ${failedFinal}`);
     } finally {
+      stabilityService?.cleanup();
       await screenshotService.close();
     }
 
@@ -326,13 +525,21 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
       results,
     };
 
+    // Keep every run so flaky pages can be told apart from real regressions
+    // Shards are left out; merge-results records the combined run instead
+    if (!options.shard) {
+      const historyService = new HistoryService();
+      historyService.record(summary, new Date(startTime), options);
+    }
+
+    // merge-results combines the files of all shards into one report and failed list
+    let shardResultsPath: string | undefined;
+    if (options.shard) {
+      shardResultsPath = new ShardResultsService().save(summary, options.shard, new Date(startTime));
+    }
+
     // Save failed tests for --failed flag
-    const failedTests: FailedTest[] = results
-      .filter((r) => !r.passed)
-      .map((r) => ({
-        scenarioId: r.scenarioId,
-        viewport: r.viewport,
-      }));
+    const failedTests = toFailedTests(results);
 
     if (failedTests.length > 0) {
       saveFailedTests(failedTests);
@@ -345,18 +552,7 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
     const reportDir = path.join(process.cwd(), 'vrt-report');
     cleanReport(reportDir);
 
-    const reportResults: ReportTestResult[] = results.map((result) => ({
-      name: `${result.scenarioTitle} @ ${result.viewport}`,
-      url: result.scenarioUrl,
-      baselineUrl: result.baselineUrl,
-      status: result.passed ? 'passed' : 'failed',
-      baseline: result.baselinePath,
-      current: result.screenshotPath,
-      diff: result.diffPath,
-      diffPixels: result.diffPixels,
-      diffPercentage: result.diffPercentage,
-      warning: result.warning,
-    }));
+    const reportResults = toReportResults(results);
 
     const reportResult = generateReport(reportResults, {
       outputDir: reportDir,
@@ -366,6 +562,17 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
 
     spinner.succeed(`Report generated: ${reportResult.reportPath}`);
 
+    let exportPaths: Record<string, string> = {};
+    if (options.reporter && options.reporter.length > 0) {
+      spinner.start('Writing result exports...');
+      exportPaths = writeExports(summary, options.reporter, {
+        junit: options.junitOutput,
+        json: options.jsonOutput,
+        markdown: options.markdownOutput,
+      });
+      spinner.succeed(`Result exports written: ${Object.keys(exportPaths).join(', ')}`);
+    }
+
     // Print results
     console.log();
     printResults(results, summary);
@@ -376,6 +583,17 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
     console.log(chalk.cyan(`  npm run report`));
     console.log(chalk.cyan(`  or open: ${reportResult.reportPath}`));
 
+    for (const [format, exportPath] of Object.entries(exportPaths)) {
+      console.log(chalk.gray(`  ${format}: ${exportPath}`));
+    }
+
+    if (shardResultsPath) {
+      console.log();
+      console.log(chalk.cyan(`Shard results saved to ${shardResultsPath}`));
+      console.log(chalk.cyan('Combine the results of all shards with:'));
+      console.log(chalk.cyan('  npm run merge-results'));
+    }
+
     // Exit with error code if tests failed
     if (summary.failed > 0) {
       process.exit(1);
@@ -394,38 +612,170 @@ export async function runTests(options: RunTestsOptions): Promise<void> {
   }
 }
 
-function printResults(results: TestResult[], summary: TestRunSummary): void {
+/**
+ * Whether the results span more than one browser engine
+ */
+function hasMultipleBrowsers(results: TestResult[]): boolean {
+  return new Set(results.map((r) => r.browser).filter(Boolean)).size > 1;
+}
+
+/**
+ * Build the display name of a test, including the engine when several are in use
+ * and the checkpoint for intermediate screenshots
+ */
+function getTestName(result: TestResult, showBrowser: boolean): string {
+  const browserSuffix = showBrowser && result.browser ? ` [${result.browser}]` : '';
+  const checkpointSuffix = result.checkpoint ? ` » ${result.checkpoint}` : '';
+  return `${result.scenarioTitle} @ ${result.viewport}${browserSuffix}${checkpointSuffix}`;
+}
+
+/**
+ * Convert the failed test results to the entries of the failed tests file
+ */
+export function toFailedTests(results: TestResult[]): FailedTest[] {
+  return results
+    .filter((r) => !r.passed)
+    .map((r) => ({
+      scenarioId: r.scenarioId,
+      viewport: r.viewport,
+      browser: r.browser,
+      checkpoint: r.checkpoint,
+      tileCount: r.tileCount,
+      capture: r.capture,
+    }));
+}
+
+/**
+ * Convert test results to the entries of the HTML report
+ */
+export function toReportResults(results: TestResult[]): ReportTestResult[] {
+  const showBrowser = hasMultipleBrowsers(results);
+  return results.map((result) => ({
+    name: getTestName(result, showBrowser),
+    scenarioId: result.scenarioId,
+    viewport: result.viewport,
+    browser: result.browser,
+    checkpoint: result.checkpoint,
+    url: result.scenarioUrl,
+    baselineUrl: result.baselineUrl,
+    status: result.passed ? 'passed' : 'failed',
+    baseline: result.baselinePath,
+    current: result.screenshotPath,
+    diff: result.diffPath,
+    annotatedDiff: result.annotatedDiffPath,
+    diffRegions: result.diffRegions,
+    diffPixels: result.diffPixels,
+    diffPercentage: result.diffPercentage,
+    warning: result.warning,
+    flaky: result.stability && !result.stability.stable ? describeInstability(result.stability) : undefined,
+    tiles: result.tiles?.map((tile) => ({
+      index: tile.tileIndex,
+      status: tile.passed ? 'passed' : 'failed',
+      baseline: tile.baselinePath,
+      current: tile.screenshotPath,
+      diff: tile.diffPath,
+      annotatedDiff: tile.annotatedDiffPath,
+      diffRegions: tile.diffRegions,
+      diffPixels: tile.diffPixels,
+      diffPercentage: tile.diffPercentage,
+      error: tile.error,
+    })),
+  }));
+}
+
+/**
+ * Print the largest changed regions of a diff, largest first
+ */
+function printDiffRegions(regions: DiffRegion[] | undefined, indent: string): void {
+  if (!regions || regions.length === 0) {
+    return;
+  }
+
+  const shown = [...regions].sort((a, b) => b.pixels - a.pixels).slice(0, MAX_PRINTED_REGIONS);
+  console.log(`${indent}${chalk.red('Regions:')} ${regions.length}`);
+  for (const region of shown) {
+    console.log(
+      `${indent}  #${region.index} at ${region.x},${region.y} ` +
+      `(${region.width}x${region.height}, ${region.pixels.toLocaleString()} pixels)`
+    );
+  }
+  if (regions.length > shown.length) {
+    console.log(`${indent}  ... ${regions.length - shown.length} more in the report`);
+  }
+}
+
+/**
+ * Print every test result and the run summary
+ * The approve hint is left out for runs without stored baselines to accept
+ */
+export function printResults(results: TestResult[], summary: TestRunSummary, showApproveHint = true): void {
   // Print individual test results
   console.log(chalk.bold('Test Results:'));
   console.log();
 
+  const showBrowser = hasMultipleBrowsers(results);
+
   for (const result of results) {
     const status = result.passed
       ? chalk.green('PASS')
       : chalk.red('FAIL');
 
-    const testName = `${result.scenarioTitle} @ ${result.viewport}`;
+    const tileSuffix = result.tileCount ? ` (${result.tileCount} tiles)` : '';
+    const testName = `${getTestName(result, showBrowser)}${tileSuffix}`;
 
     if (result.passed) {
       let suffix = '';
       if (result.warning === 'dimension-mismatch') {
         suffix = chalk.yellow(' (dimension mismatch ignored)');
+      } else if (result.warning === 'dimension-mismatch-padded') {
+        suffix = chalk.yellow(' (dimension mismatch, overlap compared)');
+      } else if (result.warning === 'baseline-updated') {
+        suffix = chalk.cyan(` (baseline updated, ${result.diffPixels ?? 0} pixels changed)`);
       }
       console.log(`  ${status} ${testName}${suffix}`);
     } else {
       console.log(`  ${status} ${testName}`);
 
-      if (result.error) {
+      if (result.tiles) {
+        for (const tile of result.tiles.filter((t) => !t.passed)) {
+          console.log(`       ${chalk.red(`Tile ${tile.tileIndex}:`)} FAIL`);
+
+          if (tile.error) {
+            console.log(`         ${chalk.red('Error:')} ${tile.error}`);
+          } else if (tile.diffPixels !== undefined && tile.diffPixels > 0) {
+            console.log(
+              `         ${chalk.red('Diff:')} ${tile.diffPixels} pixels (${tile.diffPercentage?.toFixed(2)}%)`
+            );
+            if (tile.diffPath) {
+              console.log(`         ${chalk.red('Diff image:')} ${tile.annotatedDiffPath ?? tile.diffPath}`);
+            }
+            printDiffRegions(tile.diffRegions, '         ');
+          }
+        }
+      } else if (result.error) {
         console.log(`       ${chalk.red('Error:')} ${result.error}`);
       } else if (result.diffPixels !== undefined && result.diffPixels > 0) {
         console.log(
           `       ${chalk.red('Diff:')} ${result.diffPixels} pixels (${result.diffPercentage?.toFixed(2)}%)`
         );
         if (result.diffPath) {
-          console.log(`       ${chalk.red('Diff image:')} ${result.diffPath}`);
+          console.log(`       ${chalk.red('Diff image:')} ${result.annotatedDiffPath ?? result.diffPath}`);
         }
+        printDiffRegions(result.diffRegions, '       ');
       }
     }
+
+    for (const warning of result.baselineWarnings ?? []) {
+      console.log(`       ${chalk.yellow('Stale baseline:')} ${warning}`);
+    }
+
+    if (result.stability && !result.stability.stable) {
+      console.log(`       ${chalk.yellow('Flaky:')} ${describeInstability(result.stability)}`);
+      if (result.stability.diffPath) {
+        console.log(`       ${chalk.yellow('Unstable diff:')} ${result.stability.diffPath}`);
+      }
+      printDiffRegions(result.stability.regions, '       ');
+    }
   }
 
   // Print summary
@@ -433,12 +783,16 @@ function printResults(results: TestResult[], summary: TestRunSummary): void {
   console.log(chalk.bold('Summary:'));
   console.log();
 
-  const passRate = ((summary.passed / summary.total) * 100).toFixed(1);
+  const passRate = summary.total > 0 ? ((summary.passed / summary.total) * 100).toFixed(1) : '100.0';
   const durationSec = (summary.duration / 1000).toFixed(2);
 
   console.log(`  Total:    ${summary.total}`);
   console.log(`  ${chalk.green('Passed:')}  ${summary.passed}`);
   console.log(`  ${chalk.red('Failed:')}  ${summary.failed}`);
+  const checked = results.filter((r) => r.stability);
+  if (checked.length > 0) {
+    console.log(`  ${chalk.yellow('Flaky:')}   ${checked.filter((r) => !r.stability?.stable).length} of ${checked.length}`);
+  }
   console.log(`  Pass Rate: ${passRate}%`);
   console.log(`  Duration: ${durationSec}s`);
   console.log();
@@ -447,8 +801,10 @@ function printResults(results: TestResult[], summary: TestRunSummary): void {
     console.log(chalk.green.bold('All tests passed!'));
   } else {
     console.log(chalk.red.bold(`${summary.failed} test(s) failed.`));
-    console.log();
-    console.log('To update baselines for failing tests:');
-    console.log(chalk.cyan('  npm run vrt:update-baseline'));
+    if (showApproveHint) {
+      console.log();
+      console.log('To review the failing tests and accept intended changes:');
+      console.log(chalk.cyan('  npm run approve'));
+    }
   }
 }
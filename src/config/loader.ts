@@ -5,7 +5,18 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { VrtConfig } from '../types';
+import {
+  VrtConfig,
+  CaptureStrategy,
+  AuthStrategy,
+  SiteHttpConfig,
+  NavigationWaitUntil,
+  DimensionPolicy,
+  DiffStyle,
+  EngineOptions,
+} from '../types';
+import { BROWSER_ENGINES } from '../utils/browser';
+import { COMPARISON_ENGINES } from '../services/engines';
 
 const DEFAULT_CONFIG: VrtConfig = {
   endpoint: '',
@@ -17,9 +28,23 @@ const DEFAULT_CONFIG: VrtConfig = {
   baselineDir: './baselines',
   diffDir: './diffs',
   comparison: {
+    engine: 'odiff',
+    engineOptions: {
+      antialiasing: true,
+      diffColor: '#ff0000',
+      diffStyle: 'overlay',
+      ignoreRegions: [],
+    },
     threshold: 0.1,
     maxDiffPixels: 100,
     maxDiffPixelRatio: 0.01,
+    overrides: [],
+    dimensionPolicy: 'fail',
+    dimensionTolerance: 0,
+  },
+  capture: {
+    strategy: 'full-page',
+    tileHeight: null,
   },
   playwright: {
     headless: true,
@@ -27,15 +52,164 @@ const DEFAULT_CONFIG: VrtConfig = {
     navigationTimeout: 30000,
     screenshotTimeout: 10000,
     workers: 1,
+    browsers: ['chromium'],
   },
   retries: {
     maxRetries: 2,
     retryDelay: 1000,
   },
+  auth: {
+    strategy: 'none',
+    loginUrl: null,
+    usernameSelector: '#edit-name',
+    passwordSelector: '#edit-pass',
+    submitSelector: '#edit-submit',
+    successSelector: null,
+    usernameEnv: 'VRT_AUTH_USERNAME',
+    passwordEnv: 'VRT_AUTH_PASSWORD',
+    oneTimeLoginUrlEnv: 'VRT_AUTH_ONE_TIME_LOGIN_URL',
+    storageStatePath: '.vrt-auth-state.json',
+  },
+  http: {
+    httpCredentials: null,
+    extraHTTPHeaders: {},
+    cookies: [],
+    domains: {},
+  },
+  network: {
+    block: [],
+    fixtures: [],
+    waitUntil: 'load',
+  },
+  environment: {
+    clock: null,
+    pauseTimers: false,
+    randomSeed: null,
+    locale: null,
+    timezoneId: null,
+    colorScheme: null,
+    reducedMotion: null,
+  },
+  scenarioOverrides: {},
 };
 
+export const DIMENSION_POLICIES: DimensionPolicy[] = ['fail', 'warn', 'pad-and-compare', 'tolerance'];
+
+const CAPTURE_STRATEGIES: CaptureStrategy[] = ['full-page', 'tiled'];
+
+const AUTH_STRATEGIES: AuthStrategy[] = ['none', 'form', 'one-time-login'];
+
+const DIFF_STYLES: DiffStyle[] = ['overlay', 'mask'];
+
+const COLOR_SCHEMES = ['light', 'dark', 'no-preference'];
+
+const REDUCED_MOTION_MODES = ['reduce', 'no-preference'];
+
+const WAIT_UNTIL_EVENTS: NavigationWaitUntil[] = ['load', 'domcontentloaded', 'networkidle'];
+
 const CONFIG_FILE_NAMES = ['.vrtrc.json', 'vrt.config.json', '.vrtrc'];
 
+/**
+ * Check that a value is a list of rectangles with non-negative x/y and positive width/height
+ */
+function isValidRegionList(regions: unknown): boolean {
+  return (
+    Array.isArray(regions) &&
+    regions.every(
+      (region) =>
+        region &&
+        typeof region.x === 'number' && region.x >= 0 &&
+        typeof region.y === 'number' && region.y >= 0 &&
+        typeof region.width === 'number' && region.width > 0 &&
+        typeof region.height === 'number' && region.height > 0
+    )
+  );
+}
+
+/**
+ * Validate engine options (partial when they come from a comparison override)
+ */
+function validateEngineOptions(options: Partial<EngineOptions>, prefix: string): string[] {
+  const errors: string[] = [];
+
+  if (options.antialiasing !== undefined && typeof options.antialiasing !== 'boolean') {
+    errors.push(`${prefix}.antialiasing must be a boolean`);
+  }
+  if (options.diffColor !== undefined && !/^#[0-9a-f]{6}$/i.test(String(options.diffColor))) {
+    errors.push(`${prefix}.diffColor must be a hex color like "#ff0000"`);
+  }
+  if (options.diffStyle !== undefined && !DIFF_STYLES.includes(options.diffStyle)) {
+    errors.push(`${prefix}.diffStyle must be one of: ${DIFF_STYLES.join(', ')}`);
+  }
+  if (options.ignoreRegions !== undefined && !isValidRegionList(options.ignoreRegions)) {
+    errors.push(`${prefix}.ignoreRegions must be rectangles with non-negative x/y and positive width/height`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate optional threshold values of a comparison or scenario override
+ */
+function validateThresholds(
+  threshold: number | undefined,
+  maxDiffPixels: number | undefined,
+  maxDiffPixelRatio: number | undefined,
+  prefix: string,
+  names: [string, string, string] = ['threshold', 'maxDiffPixels', 'maxDiffPixelRatio']
+): string[] {
+  const errors: string[] = [];
+
+  if (threshold !== undefined && (typeof threshold !== 'number' || threshold < 0 || threshold > 1)) {
+    errors.push(`${prefix}.${names[0]} must be between 0 and 1`);
+  }
+  if (maxDiffPixels !== undefined && (typeof maxDiffPixels !== 'number' || maxDiffPixels < 0)) {
+    errors.push(`${prefix}.${names[1]} must be non-negative`);
+  }
+  if (maxDiffPixelRatio !== undefined && (typeof maxDiffPixelRatio !== 'number' || maxDiffPixelRatio < 0 || maxDiffPixelRatio > 1)) {
+    errors.push(`${prefix}.${names[2]} must be between 0 and 1`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the HTTP settings for target sites (global or per-domain)
+ */
+function validateSiteHttpConfig(site: SiteHttpConfig, prefix: string): string[] {
+  const errors: string[] = [];
+
+  if (site.httpCredentials) {
+    if (typeof site.httpCredentials.username !== 'string' || typeof site.httpCredentials.password !== 'string') {
+      errors.push(`${prefix}.httpCredentials must have a username and password`);
+    }
+  }
+
+  if (site.extraHTTPHeaders !== undefined) {
+    const headers = site.extraHTTPHeaders;
+    if (
+      !headers ||
+      typeof headers !== 'object' ||
+      Array.isArray(headers) ||
+      Object.values(headers).some((value) => typeof value !== 'string')
+    ) {
+      errors.push(`${prefix}.extraHTTPHeaders must map header names to string values`);
+    }
+  }
+
+  if (site.cookies !== undefined) {
+    const cookies = Array.isArray(site.cookies) ? site.cookies : [null];
+    const invalid = cookies.some(
+      (cookie) => !cookie || typeof cookie.name !== 'string' || cookie.name === '' || typeof cookie.value !== 'string'
+    );
+    if (invalid) {
+      errors.push(`${prefix}.cookies must be an array of cookies with a name and string value`);
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Find the config file in the current directory or parent directories
  */
@@ -90,6 +264,12 @@ function validateConfig(config: Partial<VrtConfig>): string[] {
   }
 
   if (config.comparison) {
+    if (config.comparison.engine !== undefined && !COMPARISON_ENGINES.includes(config.comparison.engine)) {
+      errors.push(`comparison.engine must be one of: ${COMPARISON_ENGINES.join(', ')}`);
+    }
+    if (config.comparison.engineOptions !== undefined) {
+      errors.push(...validateEngineOptions(config.comparison.engineOptions, 'comparison.engineOptions'));
+    }
     if (
       config.comparison.threshold !== undefined &&
       (config.comparison.threshold < 0 || config.comparison.threshold > 1)
@@ -109,6 +289,162 @@ function validateConfig(config: Partial<VrtConfig>): string[] {
     ) {
       errors.push('comparison.maxDiffPixelRatio must be between 0 and 1');
     }
+    if (config.comparison.overrides !== undefined) {
+      if (!Array.isArray(config.comparison.overrides)) {
+        errors.push('comparison.overrides must be an array');
+      } else {
+        config.comparison.overrides.forEach((override, index) => {
+          const prefix = `comparison.overrides[${index}]`;
+          if (!override || typeof override !== 'object') {
+            errors.push(`${prefix} must be an object`);
+            return;
+          }
+          if (override.scenario !== undefined && typeof override.scenario !== 'string') {
+            errors.push(`${prefix}.scenario must be a scenario ID or glob pattern`);
+          }
+          if (override.viewport !== undefined && typeof override.viewport !== 'string') {
+            errors.push(`${prefix}.viewport must be a viewport key or glob pattern`);
+          }
+          errors.push(...validateThresholds(override.threshold, override.maxDiffPixels, override.maxDiffPixelRatio, prefix));
+          if (override.engineOptions !== undefined) {
+            errors.push(...validateEngineOptions(override.engineOptions, `${prefix}.engineOptions`));
+          }
+        });
+      }
+    }
+    if (
+      config.comparison.dimensionPolicy !== undefined &&
+      !DIMENSION_POLICIES.includes(config.comparison.dimensionPolicy)
+    ) {
+      errors.push(`comparison.dimensionPolicy must be one of: ${DIMENSION_POLICIES.join(', ')}`);
+    }
+    if (
+      config.comparison.dimensionTolerance !== undefined &&
+      (!Number.isInteger(config.comparison.dimensionTolerance) || config.comparison.dimensionTolerance < 0)
+    ) {
+      errors.push('comparison.dimensionTolerance must be a non-negative integer');
+    }
+  }
+
+  if (config.capture) {
+    if (
+      config.capture.strategy !== undefined &&
+      !CAPTURE_STRATEGIES.includes(config.capture.strategy)
+    ) {
+      errors.push(`capture.strategy must be one of: ${CAPTURE_STRATEGIES.join(', ')}`);
+    }
+    if (
+      config.capture.tileHeight !== undefined &&
+      config.capture.tileHeight !== null &&
+      (config.capture.tileHeight < 1 || !Number.isInteger(config.capture.tileHeight))
+    ) {
+      errors.push('capture.tileHeight must be a positive integer or null');
+    }
+  }
+
+  if (config.auth) {
+    if (config.auth.strategy !== undefined && !AUTH_STRATEGIES.includes(config.auth.strategy)) {
+      errors.push(`auth.strategy must be one of: ${AUTH_STRATEGIES.join(', ')}`);
+    }
+    if (config.auth.strategy === 'form') {
+      if (!config.auth.loginUrl) {
+        errors.push('auth.loginUrl is required when auth.strategy is "form"');
+      }
+      if (!config.auth.usernameSelector || !config.auth.passwordSelector || !config.auth.submitSelector) {
+        errors.push('auth.usernameSelector, auth.passwordSelector and auth.submitSelector are required for form login');
+      }
+    }
+    if (config.auth.strategy !== 'none' && !config.auth.storageStatePath) {
+      errors.push('auth.storageStatePath must not be empty');
+    }
+  }
+
+  if (config.http) {
+    errors.push(...validateSiteHttpConfig(config.http, 'http'));
+    for (const [domain, site] of Object.entries(config.http.domains ?? {})) {
+      errors.push(...validateSiteHttpConfig(site, `http.domains["${domain}"]`));
+    }
+  }
+
+  if (config.network) {
+    if (
+      config.network.block !== undefined &&
+      (!Array.isArray(config.network.block) ||
+        config.network.block.some((pattern) => typeof pattern !== 'string' || pattern.trim() === ''))
+    ) {
+      errors.push('network.block must be an array of URL globs');
+    }
+    if (config.network.fixtures !== undefined) {
+      const fixtures = Array.isArray(config.network.fixtures) ? config.network.fixtures : [null];
+      fixtures.forEach((fixture, index) => {
+        if (!fixture || typeof fixture.url !== 'string' || typeof fixture.path !== 'string') {
+          errors.push(`network.fixtures[${index}] must have a url glob and a file path`);
+        } else if (!fs.existsSync(path.resolve(process.cwd(), fixture.path))) {
+          errors.push(`network.fixtures[${index}].path not found: ${fixture.path}`);
+        }
+      });
+    }
+    if (config.network.waitUntil !== undefined && !WAIT_UNTIL_EVENTS.includes(config.network.waitUntil)) {
+      errors.push(`network.waitUntil must be one of: ${WAIT_UNTIL_EVENTS.join(', ')}`);
+    }
+  }
+
+  if (config.environment) {
+    const env = config.environment;
+    if (env.clock !== undefined && env.clock !== null && Number.isNaN(Date.parse(env.clock))) {
+      errors.push('environment.clock must be an ISO date-time (e.g. "2024-01-15T10:00:00Z")');
+    }
+    if (env.pauseTimers !== undefined && typeof env.pauseTimers !== 'boolean') {
+      errors.push('environment.pauseTimers must be a boolean');
+    }
+    if (env.pauseTimers && !env.clock) {
+      errors.push('environment.pauseTimers requires environment.clock');
+    }
+    if (env.randomSeed !== undefined && env.randomSeed !== null && !Number.isInteger(env.randomSeed)) {
+      errors.push('environment.randomSeed must be an integer');
+    }
+    if (env.timezoneId) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: env.timezoneId });
+      } catch {
+        errors.push(`environment.timezoneId is not a valid IANA time zone: ${env.timezoneId}`);
+      }
+    }
+    if (env.colorScheme !== undefined && env.colorScheme !== null && !COLOR_SCHEMES.includes(env.colorScheme)) {
+      errors.push(`environment.colorScheme must be one of: ${COLOR_SCHEMES.join(', ')}`);
+    }
+    if (env.reducedMotion !== undefined && env.reducedMotion !== null && !REDUCED_MOTION_MODES.includes(env.reducedMotion)) {
+      errors.push(`environment.reducedMotion must be one of: ${REDUCED_MOTION_MODES.join(', ')}`);
+    }
+  }
+
+  if (config.scenarioOverrides) {
+    for (const [pattern, override] of Object.entries(config.scenarioOverrides)) {
+      if (
+        override.mask_selectors !== undefined &&
+        (!Array.isArray(override.mask_selectors) ||
+          override.mask_selectors.some((selector) => typeof selector !== 'string' || selector.trim() === ''))
+      ) {
+        errors.push(`scenarioOverrides["${pattern}"].mask_selectors must be an array of selectors`);
+      }
+      if (override.ignore_regions !== undefined && !isValidRegionList(override.ignore_regions)) {
+        errors.push(
+          `scenarioOverrides["${pattern}"].ignore_regions must be rectangles with non-negative x/y and positive width/height`
+        );
+      }
+      errors.push(
+        ...validateThresholds(
+          override.threshold,
+          override.max_diff_pixels,
+          override.max_diff_pixel_ratio,
+          `scenarioOverrides["${pattern}"]`,
+          ['threshold', 'max_diff_pixels', 'max_diff_pixel_ratio']
+        )
+      );
+      if (override.dimension_policy !== undefined && !DIMENSION_POLICIES.includes(override.dimension_policy)) {
+        errors.push(`scenarioOverrides["${pattern}"].dimension_policy must be one of: ${DIMENSION_POLICIES.join(', ')}`);
+      }
+    }
   }
 
   if (config.playwright) {
@@ -127,6 +463,18 @@ function validateConfig(config: Partial<VrtConfig>): string[] {
     ) {
       errors.push('playwright.workers must be a positive integer');
     }
+    if (config.playwright.browsers !== undefined) {
+      if (!Array.isArray(config.playwright.browsers) || config.playwright.browsers.length === 0) {
+        errors.push('playwright.browsers must be a non-empty array');
+      } else {
+        const unknown = config.playwright.browsers.filter((b) => !BROWSER_ENGINES.includes(b));
+        if (unknown.length > 0) {
+          errors.push(
+            `playwright.browsers contains unknown engine(s): ${unknown.join(', ')} (expected ${BROWSER_ENGINES.join(', ')})`
+          );
+        }
+      }
+    }
   }
 
   return errors;
@@ -149,9 +497,23 @@ function deepMerge(
     baselineDir: source.baselineDir ?? target.baselineDir,
     diffDir: source.diffDir ?? target.diffDir,
     comparison: {
+      engine: source.comparison?.engine ?? target.comparison.engine,
+      engineOptions: {
+        antialiasing: source.comparison?.engineOptions?.antialiasing ?? target.comparison.engineOptions.antialiasing,
+        diffColor: source.comparison?.engineOptions?.diffColor ?? target.comparison.engineOptions.diffColor,
+        diffStyle: source.comparison?.engineOptions?.diffStyle ?? target.comparison.engineOptions.diffStyle,
+        ignoreRegions: source.comparison?.engineOptions?.ignoreRegions ?? target.comparison.engineOptions.ignoreRegions,
+      },
       threshold: source.comparison?.threshold ?? target.comparison.threshold,
       maxDiffPixels: source.comparison?.maxDiffPixels ?? target.comparison.maxDiffPixels,
       maxDiffPixelRatio: source.comparison?.maxDiffPixelRatio ?? target.comparison.maxDiffPixelRatio,
+      overrides: source.comparison?.overrides ?? target.comparison.overrides,
+      dimensionPolicy: source.comparison?.dimensionPolicy ?? target.comparison.dimensionPolicy,
+      dimensionTolerance: source.comparison?.dimensionTolerance ?? target.comparison.dimensionTolerance,
+    },
+    capture: {
+      strategy: source.capture?.strategy ?? target.capture.strategy,
+      tileHeight: source.capture?.tileHeight !== undefined ? source.capture.tileHeight : target.capture.tileHeight,
     },
     playwright: {
       headless: source.playwright?.headless ?? target.playwright.headless,
@@ -159,11 +521,45 @@ function deepMerge(
       navigationTimeout: source.playwright?.navigationTimeout ?? target.playwright.navigationTimeout,
       screenshotTimeout: source.playwright?.screenshotTimeout ?? target.playwright.screenshotTimeout,
       workers: source.playwright?.workers ?? target.playwright.workers,
+      browsers: source.playwright?.browsers ?? target.playwright.browsers,
     },
     retries: {
       maxRetries: source.retries?.maxRetries ?? target.retries.maxRetries,
       retryDelay: source.retries?.retryDelay ?? target.retries.retryDelay,
     },
+    auth: {
+      strategy: source.auth?.strategy ?? target.auth.strategy,
+      loginUrl: source.auth?.loginUrl !== undefined ? source.auth.loginUrl : target.auth.loginUrl,
+      usernameSelector: source.auth?.usernameSelector ?? target.auth.usernameSelector,
+      passwordSelector: source.auth?.passwordSelector ?? target.auth.passwordSelector,
+      submitSelector: source.auth?.submitSelector ?? target.auth.submitSelector,
+      successSelector: source.auth?.successSelector !== undefined ? source.auth.successSelector : target.auth.successSelector,
+      usernameEnv: source.auth?.usernameEnv ?? target.auth.usernameEnv,
+      passwordEnv: source.auth?.passwordEnv ?? target.auth.passwordEnv,
+      oneTimeLoginUrlEnv: source.auth?.oneTimeLoginUrlEnv ?? target.auth.oneTimeLoginUrlEnv,
+      storageStatePath: source.auth?.storageStatePath ?? target.auth.storageStatePath,
+    },
+    http: {
+      httpCredentials: source.http?.httpCredentials !== undefined ? source.http.httpCredentials : target.http.httpCredentials,
+      extraHTTPHeaders: source.http?.extraHTTPHeaders ?? target.http.extraHTTPHeaders,
+      cookies: source.http?.cookies ?? target.http.cookies,
+      domains: source.http?.domains ?? target.http.domains,
+    },
+    network: {
+      block: source.network?.block ?? target.network.block,
+      fixtures: source.network?.fixtures ?? target.network.fixtures,
+      waitUntil: source.network?.waitUntil ?? target.network.waitUntil,
+    },
+    environment: {
+      clock: source.environment?.clock !== undefined ? source.environment.clock : target.environment.clock,
+      pauseTimers: source.environment?.pauseTimers ?? target.environment.pauseTimers,
+      randomSeed: source.environment?.randomSeed !== undefined ? source.environment.randomSeed : target.environment.randomSeed,
+      locale: source.environment?.locale !== undefined ? source.environment.locale : target.environment.locale,
+      timezoneId: source.environment?.timezoneId !== undefined ? source.environment.timezoneId : target.environment.timezoneId,
+      colorScheme: source.environment?.colorScheme !== undefined ? source.environment.colorScheme : target.environment.colorScheme,
+      reducedMotion: source.environment?.reducedMotion !== undefined ? source.environment.reducedMotion : target.environment.reducedMotion,
+    },
+    scenarioOverrides: source.scenarioOverrides ?? target.scenarioOverrides,
   };
 
   return result;
@@ -213,6 +609,27 @@ export function loadConfig(configPath?: string): VrtConfig {
   if (process.env.VRT_TEST_DOMAIN) {
     config.testDomain = process.env.VRT_TEST_DOMAIN;
   }
+  if (process.env.VRT_HTTP_USERNAME && process.env.VRT_HTTP_PASSWORD) {
+    config.http = {
+      ...config.http,
+      httpCredentials: {
+        username: process.env.VRT_HTTP_USERNAME,
+        password: process.env.VRT_HTTP_PASSWORD,
+      },
+    } as VrtConfig['http'];
+  }
+  if (process.env.VRT_COMPARISON_ENGINE) {
+    config.comparison = {
+      ...config.comparison,
+      engine: process.env.VRT_COMPARISON_ENGINE,
+    } as VrtConfig['comparison'];
+  }
+  if (process.env.VRT_BROWSERS) {
+    config.playwright = {
+      ...config.playwright,
+      browsers: process.env.VRT_BROWSERS.split(',').map((b) => b.trim()) as VrtConfig['playwright']['browsers'],
+    } as VrtConfig['playwright'];
+  }
 
   // Merge with defaults
   const mergedConfig = deepMerge(DEFAULT_CONFIG, config);
@@ -257,9 +674,23 @@ export function createDefaultConfig(targetPath?: string): string {
     baselineDir: './baselines',
     diffDir: './diffs',
     comparison: {
+      engine: 'odiff',
+      engineOptions: {
+        antialiasing: true,
+        diffColor: '#ff0000',
+        diffStyle: 'overlay',
+        ignoreRegions: [],
+      },
       threshold: 0.1,
       maxDiffPixels: 100,
       maxDiffPixelRatio: 0.01,
+      overrides: [],
+      dimensionPolicy: 'fail',
+      dimensionTolerance: 0,
+    },
+    capture: {
+      strategy: 'full-page',
+      tileHeight: null,
     },
     playwright: {
       headless: true,
@@ -267,11 +698,45 @@ export function createDefaultConfig(targetPath?: string): string {
       navigationTimeout: 30000,
       screenshotTimeout: 10000,
       workers: 1,
+      browsers: ['chromium'],
     },
     retries: {
       maxRetries: 2,
       retryDelay: 1000,
     },
+    auth: {
+      strategy: 'none',
+      loginUrl: null,
+      usernameSelector: '#edit-name',
+      passwordSelector: '#edit-pass',
+      submitSelector: '#edit-submit',
+      successSelector: null,
+      usernameEnv: 'VRT_AUTH_USERNAME',
+      passwordEnv: 'VRT_AUTH_PASSWORD',
+      oneTimeLoginUrlEnv: 'VRT_AUTH_ONE_TIME_LOGIN_URL',
+      storageStatePath: '.vrt-auth-state.json',
+    },
+    http: {
+      httpCredentials: null,
+      extraHTTPHeaders: {},
+      cookies: [],
+      domains: {},
+    },
+    network: {
+      block: [],
+      fixtures: [],
+      waitUntil: 'load',
+    },
+    environment: {
+      clock: null,
+      pauseTimers: false,
+      randomSeed: null,
+      locale: null,
+      timezoneId: null,
+      colorScheme: null,
+      reducedMotion: null,
+    },
+    scenarioOverrides: {},
   };
 
   fs.writeFileSync(configPath, JSON.stringify(defaultConfig, null, 2) + '\n');
@@ -0,0 +1,269 @@
+/**
+ * Result Exporters
+ * Write test run results as JUnit XML, JSON and Markdown for CI systems
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { JsonReport, JsonReportTest, ReporterFormat, TestResult, TestRunSummary } from '../types';
+import { DEFAULT_BROWSER } from '../utils/browser';
+
+export const REPORTER_FORMATS: ReporterFormat[] = ['junit', 'json', 'markdown'];
+
+export const DEFAULT_EXPORT_PATHS: Record<ReporterFormat, string> = {
+  junit: path.join('reports', 'junit.xml'),
+  json: path.join('reports', 'results.json'),
+  markdown: path.join('reports', 'summary.md'),
+};
+
+// Failed tests listed in the Markdown summary; PR comments have a size limit
+const MAX_MARKDOWN_ROWS = 50;
+
+/**
+ * Build the display name of a test, with the engine when it isn't the default and the checkpoint
+ */
+function describeResult(result: TestResult): string {
+  const browser = result.browser && result.browser !== DEFAULT_BROWSER ? ` [${result.browser}]` : '';
+  const checkpoint = result.checkpoint ? ` » ${result.checkpoint}` : '';
+  return `${result.scenarioTitle} @ ${result.viewport}${browser}${checkpoint}`;
+}
+
+/**
+ * Make an artifact path relative to the working directory so exports don't depend on the machine
+ */
+function toRelativePath(filePath: string | undefined): string | null {
+  return filePath ? path.relative(process.cwd(), path.resolve(filePath)) : null;
+}
+
+/**
+ * Explain why a test failed in one line
+ */
+function describeFailure(result: TestResult): string {
+  if (result.error) {
+    return result.error;
+  }
+
+  const failedTiles = result.tiles?.filter((tile) => !tile.passed) ?? [];
+  if (failedTiles.length > 0) {
+    return `${failedTiles.length} of ${result.tiles?.length} tiles differ (${result.diffPixels ?? 0} pixels, ${(result.diffPercentage ?? 0).toFixed(2)}%)`;
+  }
+
+  return `${result.diffPixels ?? 0} pixels differ (${(result.diffPercentage ?? 0).toFixed(2)}%)`;
+}
+
+/**
+ * Whether XML 1.0 allows a character (control characters other than tab and newlines are not)
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Escape text for XML attributes and content, dropping characters XML can't represent
+ */
+function escapeXml(text: string): string {
+  return Array.from(text)
+    .filter(isXmlChar)
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Escape text for a Markdown table cell or list item
+ */
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Format milliseconds as seconds for JUnit time attributes
+ */
+function toSeconds(ms: number | undefined): string {
+  return ((ms ?? 0) / 1000).toFixed(3);
+}
+
+/**
+ * Render a run as JUnit XML with one testcase per scenario/viewport (and browser/checkpoint)
+ * Capture and setup problems are reported as errors, visual differences as failures
+ */
+export function toJUnitXml(summary: TestRunSummary, timestamp: Date = new Date()): string {
+  const errors = summary.results.filter((result) => !result.passed && result.error).length;
+  const failures = summary.failed - errors;
+  const counts =
+    `tests="${summary.total}" failures="${failures}" errors="${errors}" skipped="${summary.skipped}" ` +
+    `time="${toSeconds(summary.duration)}"`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Visual Regression" ${counts}>`,
+    `  <testsuite name="Visual Regression" ${counts} timestamp="${timestamp.toISOString()}">`,
+  ];
+
+  for (const result of summary.results) {
+    lines.push(
+      `    <testcase classname="${escapeXml(result.scenarioId)}" name="${escapeXml(describeResult(result))}" ` +
+        `time="${toSeconds(result.duration)}">`
+    );
+
+    if (!result.passed) {
+      const message = escapeXml(describeFailure(result));
+      const details = [
+        `URL: ${result.scenarioUrl}`,
+        result.diffPath ? `Diff: ${toRelativePath(result.annotatedDiffPath ?? result.diffPath)}` : '',
+        ...(result.tiles ?? [])
+          .filter((tile) => !tile.passed)
+          .map((tile) => `Tile ${tile.tileIndex}: ${tile.error ?? `${tile.diffPixels ?? 0} pixels differ`}`),
+      ].filter(Boolean);
+      const element = result.error ? 'error' : 'failure';
+      const type = result.error ? 'capture-error' : 'visual-diff';
+      lines.push(`      <${element} message="${message}" type="${type}">${escapeXml(details.join('\n'))}</${element}>`);
+    }
+
+    const output = [
+      result.screenshotPath ? `Screenshot: ${toRelativePath(result.screenshotPath)}` : '',
+      result.baselinePath ? `Baseline: ${toRelativePath(result.baselinePath)}` : '',
+      ...(result.baselineWarnings ?? []).map((warning) => `Stale baseline: ${warning}`),
+      result.stability && !result.stability.stable ? 'Flaky: differed between repeated captures' : '',
+    ].filter(Boolean);
+    if (output.length > 0) {
+      lines.push(`      <system-out>${escapeXml(output.join('\n'))}</system-out>`);
+    }
+
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Convert a test result to its stable JSON export shape
+ */
+function toJsonTest(result: TestResult): JsonReportTest {
+  return {
+    name: describeResult(result),
+    scenarioId: result.scenarioId,
+    scenarioTitle: result.scenarioTitle,
+    scenarioUrl: result.scenarioUrl,
+    baselineUrl: result.baselineUrl ?? null,
+    viewport: result.viewport,
+    browser: result.browser ?? null,
+    checkpoint: result.checkpoint ?? null,
+    status: result.passed ? 'passed' : 'failed',
+    flaky: result.stability ? !result.stability.stable : null,
+    diffPixels: result.diffPixels ?? null,
+    diffPercentage: result.diffPercentage ?? null,
+    duration: result.duration ?? null,
+    error: result.error ?? null,
+    warning: result.warning ?? null,
+    baselineWarnings: result.baselineWarnings ?? [],
+    screenshotPath: toRelativePath(result.screenshotPath),
+    baselinePath: toRelativePath(result.baselinePath),
+    diffPath: toRelativePath(result.annotatedDiffPath ?? result.diffPath),
+    diffRegions: result.diffRegions ?? [],
+    tiles: (result.tiles ?? []).map((tile) => ({
+      index: tile.tileIndex,
+      status: tile.passed ? 'passed' : 'failed',
+      diffPixels: tile.diffPixels ?? null,
+      diffPercentage: tile.diffPercentage ?? null,
+      error: tile.error ?? null,
+    })),
+  };
+}
+
+/**
+ * Render a run as the versioned JSON export
+ */
+export function toJsonReport(summary: TestRunSummary, timestamp: Date = new Date()): JsonReport {
+  const checked = summary.results.filter((result) => result.stability);
+
+  return {
+    schemaVersion: 1,
+    generatedAt: timestamp.toISOString(),
+    summary: {
+      total: summary.total,
+      passed: summary.passed,
+      failed: summary.failed,
+      skipped: summary.skipped,
+      flaky: checked.length > 0 ? checked.filter((result) => !result.stability?.stable).length : null,
+      duration: summary.duration,
+    },
+    tests: summary.results.map(toJsonTest),
+  };
+}
+
+/**
+ * Render a run as a Markdown summary for pull request comments
+ */
+export function toMarkdownSummary(summary: TestRunSummary): string {
+  const passRate = summary.total > 0 ? ((summary.passed / summary.total) * 100).toFixed(1) : '100.0';
+  const failedResults = summary.results.filter((result) => !result.passed);
+  const flakyResults = summary.results.filter((result) => result.stability && !result.stability.stable);
+
+  const lines = [
+    summary.failed === 0
+      ? `## ✅ Visual regression: all ${summary.total} tests passed`
+      : `## ❌ Visual regression: ${summary.failed} of ${summary.total} tests failed`,
+    '',
+    '| Total | Passed | Failed | Pass rate | Duration |',
+    '|------:|-------:|-------:|----------:|---------:|',
+    `| ${summary.total} | ${summary.passed} | ${summary.failed} | ${passRate}% | ${(summary.duration / 1000).toFixed(1)}s |`,
+  ];
+
+  if (failedResults.length > 0) {
+    lines.push('', '### Failed tests', '', '| Test | Difference | Diff image |', '|------|------------|------------|');
+    for (const result of failedResults.slice(0, MAX_MARKDOWN_ROWS)) {
+      const diffPath = toRelativePath(result.annotatedDiffPath ?? result.diffPath);
+      lines.push(
+        `| ${escapeMarkdownCell(describeResult(result))} | ${escapeMarkdownCell(describeFailure(result))} | ` +
+          `${diffPath ? `\`${escapeMarkdownCell(diffPath)}\`` : '—'} |`
+      );
+    }
+    if (failedResults.length > MAX_MARKDOWN_ROWS) {
+      lines.push('', `_…and ${failedResults.length - MAX_MARKDOWN_ROWS} more failed tests._`);
+    }
+  }
+
+  if (flakyResults.length > 0) {
+    lines.push('', '### Flaky tests', '');
+    for (const result of flakyResults.slice(0, MAX_MARKDOWN_ROWS)) {
+      lines.push(`- ${escapeMarkdownCell(describeResult(result))}`);
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Write the requested exports and return the path of each file written
+ */
+export function writeExports(
+  summary: TestRunSummary,
+  formats: ReporterFormat[],
+  outputPaths: Partial<Record<ReporterFormat, string>> = {}
+): Record<string, string> {
+  const written: Record<string, string> = {};
+  const timestamp = new Date();
+
+  for (const format of new Set(formats)) {
+    const outputPath = outputPaths[format] ?? DEFAULT_EXPORT_PATHS[format];
+    const content =
+      format === 'junit'
+        ? toJUnitXml(summary, timestamp)
+        : format === 'json'
+          ? JSON.stringify(toJsonReport(summary, timestamp), null, 2) + '\n'
+          : toMarkdownSummary(summary);
+
+    fs.mkdirSync(path.dirname(path.resolve(outputPath)), { recursive: true });
+    fs.writeFileSync(outputPath, content);
+    written[format] = outputPath;
+  }
+
+  return written;
+}
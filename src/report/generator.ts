@@ -11,6 +11,8 @@ export interface ReportOptions {
   outputDir: string;
   title?: string;
   copyImages?: boolean;
+  // Show the Accept button on failed tests; off when the "baseline" side isn't a stored baseline
+  allowAccept?: boolean;
 }
 
 export interface ReportResult {
@@ -28,7 +30,7 @@ export function generateReport(
   results: ReportTestResult[],
   options: ReportOptions
 ): ReportResult {
-  const { outputDir, title = 'Visual Regression Report', copyImages = true } = options;
+  const { outputDir, title = 'Visual Regression Report', copyImages = true, allowAccept = true } = options;
 
   // Ensure output directory exists
   if (!fs.existsSync(outputDir)) {
@@ -73,6 +75,20 @@ export function generateReport(
         fs.copyFileSync(result.diff, destPath);
         processed.diff = `images/${diffFilename}`;
       }
+
+      // Copy the diff image annotated with numbered regions
+      processed.annotatedDiff = copyImage(result.annotatedDiff, `annotated_${index}`, imagesDir);
+
+      // Copy per-tile images for tiled captures
+      if (result.tiles) {
+        processed.tiles = result.tiles.map((tile) => ({
+          ...tile,
+          baseline: copyImage(tile.baseline, `tile_baseline_${index}`, imagesDir),
+          current: copyImage(tile.current, `tile_current_${index}`, imagesDir),
+          diff: copyImage(tile.diff, `tile_diff_${index}`, imagesDir),
+          annotatedDiff: copyImage(tile.annotatedDiff, `tile_annotated_${index}`, imagesDir),
+        }));
+      }
     }
 
     return processed;
@@ -85,6 +101,11 @@ export function generateReport(
     resultsJson
   );
 
+  template = template.replace(
+    '/* ALLOW_ACCEPT_PLACEHOLDER */true',
+    JSON.stringify(allowAccept)
+  );
+
   // Update title
   template = template.replace(
     '<title>Visual Regression Report</title>',
@@ -112,6 +133,23 @@ export function generateReport(
   };
 }
 
+/**
+ * Copy an image into the report images directory and return its report-relative path
+ */
+function copyImage(
+  imagePath: string | undefined,
+  prefix: string,
+  imagesDir: string
+): string | undefined {
+  if (!imagePath || !fs.existsSync(imagePath)) {
+    return undefined;
+  }
+
+  const filename = `${prefix}_${path.basename(imagePath)}`;
+  fs.copyFileSync(imagePath, path.join(imagesDir, filename));
+  return `images/${filename}`;
+}
+
 /**
  * Escape HTML special characters
  */
@@ -6,6 +6,8 @@
 import axios, { AxiosError, AxiosInstance, AxiosResponse } from 'axios';
 import https from 'https';
 import { ApiPayload, ApiError, ConnectionTestResult, VrtConfig } from '../types';
+import { applyScenarioOverrides } from '../utils/scenario-overrides';
+import { validateScenarioInteractions } from '../utils/interactions';
 
 export class ApiService {
   private client: AxiosInstance;
@@ -59,7 +61,20 @@ export class ApiService {
         throw new Error('Invalid payload structure: missing meta, viewports, or scenarios');
       }
 
-      return response.data;
+      // Reject interactions that can't be executed before any browser is launched
+      const interactionErrors = validateScenarioInteractions(response.data.scenarios);
+      if (interactionErrors.length > 0) {
+        throw new Error(`Invalid scenario interactions:\n  - ${interactionErrors.join('\n  - ')}`);
+      }
+
+      // Merge local scenario overrides (masks, ignore regions) into the API scenarios
+      return {
+        ...response.data,
+        scenarios: applyScenarioOverrides(
+          response.data.scenarios,
+          this.config.scenarioOverrides
+        ),
+      };
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const axiosError = error as AxiosError<ApiError>;
@@ -0,0 +1,140 @@
+/**
+ * Approval Service
+ * Promotes the current screenshots of failed tests to baselines
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { VrtConfig } from '../types';
+import { ComparisonService } from './comparison';
+import { BaselineManifestService } from './baseline-manifest';
+import { FailedTest, loadFailedTests, saveFailedTests, clearFailedTests, findFailedTest } from './failed-tracker';
+import { getAnnotatedDiffPath, getArtifactFilename, getTileFilename } from '../utils/artifact-name';
+import { DEFAULT_BROWSER, getBrowserViewportKey } from '../utils/browser';
+import { getCheckpointViewportKey } from '../utils/interactions';
+
+/**
+ * A failed test whose current screenshot can replace its baseline
+ */
+export interface ApprovalCandidate {
+  test: FailedTest;
+  // Viewport key including the engine and checkpoint suffixes, used for artifact filenames
+  artifactKey: string;
+  // The current image, or one per tile
+  screenshotPaths: string[];
+  // Existing baseline images; empty when the test had no baseline yet
+  baselinePaths: string[];
+  // Diff images written by the last run (annotated when available)
+  diffPaths: string[];
+}
+
+export class ApprovalService {
+  private config: VrtConfig;
+  private comparisonService: ComparisonService;
+  private manifestService: BaselineManifestService;
+
+  constructor(config: VrtConfig) {
+    this.config = config;
+    this.comparisonService = new ComparisonService(config);
+    this.manifestService = new BaselineManifestService(config);
+  }
+
+  /**
+   * Resolve the artifacts of a failed test
+   * Returns null when there is no current screenshot to approve (e.g. the capture failed)
+   */
+  getCandidate(test: FailedTest): ApprovalCandidate | null {
+    const browserKey = getBrowserViewportKey(test.viewport, test.browser ?? DEFAULT_BROWSER);
+    const artifactKey = test.checkpoint ? getCheckpointViewportKey(browserKey, test.checkpoint) : browserKey;
+
+    const filenames: string[] = [];
+    if (test.tileCount !== undefined) {
+      // The output directory only holds the tiles of the latest capture
+      for (let i = 0; fs.existsSync(path.join(this.config.outputDir, getTileFilename(test.scenarioId, artifactKey, i))); i++) {
+        filenames.push(getTileFilename(test.scenarioId, artifactKey, i));
+      }
+    } else {
+      filenames.push(getArtifactFilename(test.scenarioId, artifactKey));
+    }
+
+    const screenshotPaths = filenames.map((filename) => path.join(this.config.outputDir, filename));
+    if (screenshotPaths.length === 0 || !screenshotPaths.every((file) => fs.existsSync(file))) {
+      return null;
+    }
+
+    return {
+      test,
+      artifactKey,
+      screenshotPaths,
+      baselinePaths: filenames
+        .map((filename) => path.join(this.config.baselineDir, filename))
+        .filter((file) => fs.existsSync(file)),
+      diffPaths: filenames
+        .map((filename) => {
+          const diffPath = path.join(this.config.diffDir, filename);
+          const annotatedPath = getAnnotatedDiffPath(diffPath);
+          return fs.existsSync(annotatedPath) ? annotatedPath : diffPath;
+        })
+        .filter((file) => fs.existsSync(file)),
+    };
+  }
+
+  /**
+   * Copy the current screenshot of a candidate over its baseline and record it in the manifest
+   * Returns the baseline paths written
+   */
+  approve(candidate: ApprovalCandidate): string[] {
+    const { test, artifactKey, screenshotPaths } = candidate;
+
+    const baselinePaths =
+      test.tileCount !== undefined
+        ? this.comparisonService.copyTilesToBaseline(screenshotPaths, test.scenarioId, artifactKey)
+        : [this.comparisonService.copyToBaseline(screenshotPaths[0], test.scenarioId, artifactKey)];
+
+    // Results saved before capture details were tracked can't be described in the manifest
+    if (test.capture) {
+      this.manifestService.record(baselinePaths, test.capture);
+    } else {
+      this.manifestService.remove(baselinePaths);
+    }
+
+    return baselinePaths;
+  }
+
+  /**
+   * Approve a single failed test of the last run, e.g. from the HTML report
+   * Updates the manifest and drops the test from the failed tracker
+   * Returns the baseline paths written
+   */
+  approveFailedTest(key: Pick<FailedTest, 'scenarioId' | 'viewport' | 'browser' | 'checkpoint'>): string[] {
+    const failedTests = loadFailedTests();
+    const test = findFailedTest(failedTests, key);
+    if (!test) {
+      throw new Error(`"${key.scenarioId}" @ ${key.viewport} is not in the failed tests of the last run`);
+    }
+
+    const candidate = this.getCandidate(test);
+    if (!candidate) {
+      throw new Error(`No current screenshot to approve for "${key.scenarioId}" @ ${key.viewport}`);
+    }
+
+    const baselinePaths = this.approve(candidate);
+    this.save();
+
+    const remaining = failedTests.filter((failed) => failed !== test);
+    if (remaining.length > 0) {
+      saveFailedTests(remaining);
+    } else {
+      clearFailedTests();
+    }
+
+    return baselinePaths;
+  }
+
+  /**
+   * Write the baseline manifest after approving
+   */
+  save(): void {
+    this.manifestService.save();
+  }
+}
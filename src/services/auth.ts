@@ -0,0 +1,156 @@
+/**
+ * Auth Service
+ * Logs in once per run and saves the Playwright storage state for reuse
+ */
+
+import { Browser, BrowserContext, Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AuthConfig, VrtConfig } from '../types';
+import { replaceDomain } from '../utils/url';
+import { resolveHttpSettings } from '../utils/http';
+
+// Cookies and local storage of a logged-in context
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export class AuthService {
+  private config: VrtConfig;
+
+  constructor(config: VrtConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Whether a login flow is configured
+   */
+  isEnabled(): boolean {
+    return this.config.auth.strategy !== 'none';
+  }
+
+  /**
+   * Log in with a fresh context and save its storage state
+   * Form login URLs are moved to the given domain so the session
+   * cookies belong to the site being captured
+   * Returns the absolute path of the saved storage state
+   */
+  async login(browser: Browser, domain?: string | null): Promise<string> {
+    const state = await this.createSession(browser, domain);
+
+    const statePath = path.resolve(process.cwd(), this.config.auth.storageStatePath);
+    const stateDir = path.dirname(statePath);
+    if (!fs.existsSync(stateDir)) {
+      fs.mkdirSync(stateDir, { recursive: true });
+    }
+
+    fs.writeFileSync(statePath, JSON.stringify(state, null, 2));
+    return statePath;
+  }
+
+  /**
+   * Log in on several domains and merge the sessions into one storage state
+   * Cookies are scoped to their domain, so a single context carries every session
+   * One-time login URLs can only be used once, so that strategy logs in a single time
+   * The merged state is kept in memory so the session saved at auth.storageStatePath
+   * for single-environment runs is left alone
+   */
+  async loginAll(browser: Browser, domains: (string | null)[]): Promise<StorageState> {
+    const targets = this.config.auth.strategy === 'form' ? [...new Set(domains)] : [domains[0] ?? null];
+    const merged: StorageState = { cookies: [], origins: [] };
+
+    for (const domain of targets) {
+      const state = await this.createSession(browser, domain);
+      merged.cookies.push(...state.cookies);
+      merged.origins.push(...state.origins);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Run the login flow in a fresh context and return its storage state
+   */
+  private async createSession(browser: Browser, domain?: string | null): Promise<StorageState> {
+    const auth = this.config.auth;
+    const loginUrl = this.getLoginUrl(domain);
+    const http = resolveHttpSettings(loginUrl, this.config.http);
+    const context = await browser.newContext({
+      httpCredentials: http.httpCredentials ?? undefined,
+      extraHTTPHeaders: http.extraHTTPHeaders,
+    });
+    if (http.cookies.length > 0) {
+      await context.addCookies(http.cookies);
+    }
+    const page = await context.newPage();
+
+    try {
+      page.setDefaultTimeout(this.config.playwright.timeout);
+      page.setDefaultNavigationTimeout(this.config.playwright.navigationTimeout);
+
+      await page.goto(loginUrl, { waitUntil: 'load' });
+
+      if (auth.strategy === 'form') {
+        await this.submitLoginForm(page, auth);
+      }
+
+      if (auth.successSelector) {
+        await page.waitForSelector(auth.successSelector, { state: 'attached' });
+      }
+
+      return await context.storageState();
+    } finally {
+      await context.close();
+    }
+  }
+
+  /**
+   * Get the URL the login flow starts at
+   * Form login URLs are moved to the given domain; one-time login URLs
+   * are used as generated
+   */
+  private getLoginUrl(domain?: string | null): string {
+    const auth = this.config.auth;
+
+    if (auth.strategy === 'form') {
+      if (!auth.loginUrl) {
+        throw new Error('Form login requires auth.loginUrl');
+      }
+      return replaceDomain(auth.loginUrl, domain);
+    }
+
+    if (auth.strategy === 'one-time-login') {
+      // e.g. the output of `drush uli`
+      const loginUrl = process.env[auth.oneTimeLoginUrlEnv];
+      if (!loginUrl) {
+        throw new Error(`One-time login requires the ${auth.oneTimeLoginUrlEnv} environment variable`);
+      }
+      return loginUrl;
+    }
+
+    throw new Error(`Unsupported auth strategy: ${auth.strategy}`);
+  }
+
+  /**
+   * Fill and submit the login form with credentials from env vars
+   */
+  private async submitLoginForm(page: Page, auth: AuthConfig): Promise<void> {
+    const username = process.env[auth.usernameEnv];
+    const password = process.env[auth.passwordEnv];
+
+    if (!username || !password) {
+      throw new Error(`Form login requires the ${auth.usernameEnv} and ${auth.passwordEnv} environment variables`);
+    }
+
+    await page.fill(auth.usernameSelector, username);
+    await page.fill(auth.passwordSelector, password);
+
+    await Promise.all([
+      page.waitForNavigation({ waitUntil: 'load' }),
+      page.click(auth.submitSelector),
+    ]);
+
+    // A login form that is still shown means the credentials were rejected
+    if (!auth.successSelector && await page.locator(auth.passwordSelector).count() > 0) {
+      throw new Error(`Login failed: the login form is still shown at ${page.url()}`);
+    }
+  }
+}
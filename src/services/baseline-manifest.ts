@@ -0,0 +1,201 @@
+/**
+ * Baseline Manifest Service
+ * Records how each baseline image was captured in baselines/manifest.json
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BaselineManifest, BaselineManifestEntry, BrowserEngine, CaptureInfo, Scenario, Viewport, VrtConfig } from '../types';
+import { getGitSha } from '../utils/git';
+
+export const MANIFEST_FILE = 'manifest.json';
+
+const TILE_FILENAME = /__tile\d+\.png$/;
+
+/**
+ * Describe a capture of a scenario at a viewport with a browser
+ */
+export function createCaptureInfo(
+  scenario: Scenario,
+  viewport: Viewport,
+  browser: BrowserEngine,
+  browserVersion: string,
+  apiGeneratedAt: string,
+  checkpoint?: string
+): CaptureInfo {
+  return {
+    scenarioId: scenario.id,
+    viewport: viewport.machine_name,
+    browser,
+    ...(checkpoint ? { checkpoint } : {}),
+    url: scenario.url,
+    viewportWidth: viewport.width,
+    viewportHeight: viewport.height,
+    deviceScaleFactor: viewport.device_scale_factor,
+    browserVersion,
+    apiGeneratedAt,
+  };
+}
+
+/**
+ * SHA-256 of a file's contents
+ */
+function hashFile(filePath: string): string {
+  return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+export class BaselineManifestService {
+  private config: VrtConfig;
+  private manifest: BaselineManifest;
+  private gitSha: string | null | undefined;
+
+  constructor(config: VrtConfig) {
+    this.config = config;
+    this.manifest = this.load();
+  }
+
+  /**
+   * Path of the manifest file inside the baseline directory
+   */
+  getManifestPath(): string {
+    return path.join(this.config.baselineDir, MANIFEST_FILE);
+  }
+
+  /**
+   * Read the manifest, starting empty when it is missing or unreadable
+   */
+  private load(): BaselineManifest {
+    const manifestPath = this.getManifestPath();
+
+    if (!fs.existsSync(manifestPath)) {
+      return { version: 1, entries: {} };
+    }
+
+    try {
+      const data = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as BaselineManifest;
+      return { version: 1, entries: data.entries ?? {} };
+    } catch {
+      return { version: 1, entries: {} };
+    }
+  }
+
+  /**
+   * Get the entry of a baseline image by filename
+   */
+  get(filename: string): BaselineManifestEntry | undefined {
+    return this.manifest.entries[filename];
+  }
+
+  /**
+   * List all entries, keyed by filename
+   */
+  getEntries(): Record<string, BaselineManifestEntry> {
+    return this.manifest.entries;
+  }
+
+  /**
+   * Record freshly written baseline images (one path, or one per tile)
+   * Tiles also record how many tiles the baseline has
+   */
+  record(baselinePaths: string[], info: CaptureInfo): void {
+    if (this.gitSha === undefined) {
+      this.gitSha = getGitSha();
+    }
+
+    const capturedAt = new Date().toISOString();
+
+    for (const baselinePath of baselinePaths) {
+      const filename = path.basename(baselinePath);
+      this.manifest.entries[filename] = {
+        ...info,
+        capturedAt,
+        sha256: hashFile(baselinePath),
+        gitSha: this.gitSha,
+        ...(TILE_FILENAME.test(filename) ? { tileCount: baselinePaths.length } : {}),
+      };
+    }
+  }
+
+  /**
+   * Remove the entries of baseline images, e.g. when they were replaced without capture details
+   */
+  remove(baselinePaths: string[]): void {
+    for (const baselinePath of baselinePaths) {
+      delete this.manifest.entries[path.basename(baselinePath)];
+    }
+  }
+
+  /**
+   * Remove every entry, e.g. before all baselines are regenerated
+   */
+  clear(): void {
+    this.manifest.entries = {};
+  }
+
+  /**
+   * Write the manifest, dropping entries whose image no longer exists
+   */
+  save(): void {
+    for (const filename of Object.keys(this.manifest.entries)) {
+      if (!fs.existsSync(path.join(this.config.baselineDir, filename))) {
+        delete this.manifest.entries[filename];
+      }
+    }
+
+    if (!fs.existsSync(this.config.baselineDir)) {
+      fs.mkdirSync(this.config.baselineDir, { recursive: true });
+    }
+
+    const sorted = Object.fromEntries(
+      Object.entries(this.manifest.entries).sort(([a], [b]) => a.localeCompare(b))
+    );
+    fs.writeFileSync(this.getManifestPath(), JSON.stringify({ version: 1, entries: sorted }, null, 2) + '\n');
+  }
+
+  /**
+   * Whether a baseline image differs from the one recorded (e.g. replaced by hand)
+   */
+  hasChanged(filename: string): boolean {
+    const entry = this.get(filename);
+    const filePath = path.join(this.config.baselineDir, filename);
+    if (!entry || !fs.existsSync(filePath)) {
+      return false;
+    }
+
+    return hashFile(filePath) !== entry.sha256;
+  }
+
+  /**
+   * Describe how a baseline's capture differs from the current browser and viewport
+   * The browser version is only checked when given
+   * Baselines without an entry (captured before the manifest existed) yield no warnings
+   */
+  findMismatches(filename: string, viewport: Viewport, browserVersion?: string): string[] {
+    const entry = this.get(filename);
+    if (!entry) {
+      return [];
+    }
+
+    const warnings: string[] = [];
+
+    if (browserVersion !== undefined && entry.browserVersion !== browserVersion) {
+      warnings.push(
+        `Baseline captured with ${entry.browser} ${entry.browserVersion}, this run uses ${browserVersion}`
+      );
+    }
+
+    if (
+      entry.viewportWidth !== viewport.width ||
+      entry.viewportHeight !== viewport.height ||
+      entry.deviceScaleFactor !== viewport.device_scale_factor
+    ) {
+      warnings.push(
+        `Baseline captured at ${entry.viewportWidth}x${entry.viewportHeight} @${entry.deviceScaleFactor}x, ` +
+          `viewport is now ${viewport.width}x${viewport.height} @${viewport.device_scale_factor}x`
+      );
+    }
+
+    return warnings;
+  }
+}
@@ -1,12 +1,25 @@
 /**
  * Comparison Service
- * Handles image comparison using ODiff
+ * Handles image comparison through the configured engine (ODiff by default)
  */
 
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
-import { compare } from 'odiff-bin';
-import { VrtConfig, TestResult } from '../types';
+import {
+  VrtConfig,
+  TestResult,
+  TileResult,
+  IgnoreRegion,
+  DimensionPolicy,
+  ComparisonThresholds,
+  DiffRegion,
+  EngineOptions,
+} from '../types';
+import { ImageSize, padPng, readPng, readPngSize } from '../utils/png';
+import { annotateDiffRegions, computeDiffMask, findDiffRegions } from '../utils/diff-regions';
+import { getAnnotatedDiffPath, getArtifactFilename, getTileFilename } from '../utils/artifact-name';
+import { ComparisonEngine, createComparisonEngine } from './engines';
 
 export interface ComparisonResult {
   passed: boolean;
@@ -14,15 +27,45 @@ export interface ComparisonResult {
   diffPercentage: number;
   totalPixels: number;
   diffPath?: string;
+  annotatedDiffPath?: string;
+  diffRegions?: DiffRegion[];
   error?: string;
   warning?: string;
 }
 
+export interface CompareOptions {
+  /** Regions left out of the diff count, in image pixels */
+  ignoreRegions?: IgnoreRegion[];
+  /** Overrides comparison.dimensionPolicy */
+  dimensionPolicy?: DimensionPolicy | null;
+  /** Overrides the global comparison thresholds */
+  thresholds?: ComparisonThresholds;
+  /** Overrides comparison.engineOptions; its ignore regions are added by compareScreenshot, not here */
+  engineOptions?: EngineOptions;
+}
+
+export interface ScreenshotCompareOptions {
+  /** Regions left out of the diff count, in page CSS pixels */
+  ignoreRegions?: IgnoreRegion[];
+  /** Overrides comparison.dimensionPolicy */
+  dimensionPolicy?: DimensionPolicy | null;
+  /** Overrides the global comparison thresholds */
+  thresholds?: ComparisonThresholds;
+  /** Overrides comparison.engineOptions; its ignore regions are in page CSS pixels */
+  engineOptions?: EngineOptions;
+  /** Scale from CSS pixels to image pixels */
+  deviceScaleFactor?: number;
+  /** Tile height in CSS pixels, used to shift regions into each tile */
+  tileHeight?: number;
+}
+
 export class ComparisonService {
   private config: VrtConfig;
+  private engine: ComparisonEngine;
 
   constructor(config: VrtConfig) {
     this.config = config;
+    this.engine = createComparisonEngine(config.comparison.engine);
   }
 
   /**
@@ -35,12 +78,35 @@ export class ComparisonService {
   }
 
   /**
-   * Compare two images using ODiff and return the result
+   * Convert page regions to image pixel regions for an image starting at offsetY
+   * Regions that fall entirely outside the image are dropped
+   */
+  private toImageRegions(
+    options: ScreenshotCompareOptions,
+    offsetY = 0,
+    imageHeight = Infinity
+  ): IgnoreRegion[] {
+    const scale = options.deviceScaleFactor ?? 1;
+    const engineOptions = options.engineOptions ?? this.config.comparison.engineOptions;
+
+    return [...(options.ignoreRegions ?? []), ...engineOptions.ignoreRegions]
+      .filter((region) => region.y + region.height > offsetY && region.y < offsetY + imageHeight)
+      .map((region) => ({
+        x: Math.floor(region.x * scale),
+        y: Math.floor(Math.max(region.y - offsetY, 0) * scale),
+        width: Math.ceil(region.width * scale),
+        height: Math.ceil((Math.min(region.y + region.height, offsetY + imageHeight) - Math.max(region.y, offsetY)) * scale),
+      }));
+  }
+
+  /**
+   * Compare two images with the configured engine and return the result
    */
   async compare(
     baselinePath: string,
     screenshotPath: string,
-    diffPath?: string
+    diffPath?: string,
+    options: CompareOptions = {}
   ): Promise<ComparisonResult> {
     // Check if baseline exists
     if (!fs.existsSync(baselinePath)) {
@@ -71,18 +137,18 @@ export class ComparisonService {
       this.ensureDirectoryExists(path.dirname(diffPath));
     }
 
+    const thresholds = options.thresholds ?? this.config.comparison;
+    const engineOptions = options.engineOptions ?? this.config.comparison.engineOptions;
+
     try {
-      // Use ODiff for comparison
-      const result = await compare(
-        baselinePath,
-        screenshotPath,
-        diffPath || '', // ODiff requires a diff path, use empty string if not needed
-        {
-          threshold: this.config.comparison.threshold,
-          failOnLayoutDiff: true, // Return layout-diff reason for dimension mismatches
-          antialiasing: true, // Reduce font rendering false positives
-        }
-      );
+      const result = await this.engine.compare(baselinePath, screenshotPath, {
+        threshold: thresholds.threshold,
+        ignoreRegions: options.ignoreRegions ?? [],
+        antialiasing: engineOptions.antialiasing,
+        diffColor: engineOptions.diffColor,
+        diffStyle: engineOptions.diffStyle,
+        diffPath,
+      });
 
       // Handle matching images
       if (result.match) {
@@ -105,14 +171,7 @@ export class ComparisonService {
         if (diffPath && fs.existsSync(diffPath)) {
           fs.unlinkSync(diffPath);
         }
-        return {
-          passed: true,
-          diffPixels: 0,
-          diffPercentage: 0,
-          totalPixels: 0,
-          diffPath: undefined,
-          warning: 'dimension-mismatch',
-        };
+        return this.compareMismatchedDimensions(baselinePath, screenshotPath, diffPath, options);
       }
 
       // Handle file not exists error
@@ -151,14 +210,24 @@ export class ComparisonService {
         : 0;
 
       // Determine if test passed based on configuration thresholds
-      const passed = this.evaluatePass(diffPixels, diffPercentage, totalPixels);
+      const passed = this.evaluatePass(diffPixels, totalPixels, thresholds);
+      const writtenDiffPath = diffPath && fs.existsSync(diffPath) ? diffPath : undefined;
 
       return {
         passed,
         diffPixels,
         diffPercentage,
         totalPixels,
-        diffPath: diffPath && fs.existsSync(diffPath) ? diffPath : undefined,
+        diffPath: writtenDiffPath,
+        ...this.locateDiffRegions(
+          baselinePath,
+          screenshotPath,
+          writtenDiffPath,
+          result.diffMask,
+          thresholds.threshold,
+          options.ignoreRegions ?? [],
+          engineOptions.antialiasing
+        ),
       };
     } catch (error) {
       return {
@@ -172,13 +241,155 @@ export class ComparisonService {
     }
   }
 
+  /**
+   * Group the changed pixels into regions and write an annotated copy of the diff
+   * ODiff and SSIM return the pixels they marked; the pixelmatch engine doesn't,
+   * so its mask comes from a pixelmatch pass with the same settings
+   * Regions only help reviewers, so a failure here never fails the comparison
+   */
+  private locateDiffRegions(
+    baselinePath: string,
+    screenshotPath: string,
+    diffPath: string | undefined,
+    diffMask: Uint8Array | undefined,
+    threshold: number,
+    ignoreRegions: IgnoreRegion[],
+    antialiasing: boolean
+  ): Pick<ComparisonResult, 'diffRegions' | 'annotatedDiffPath'> {
+    try {
+      let mask = diffMask;
+      let size: ImageSize;
+      if (mask) {
+        size = readPngSize(baselinePath);
+      } else {
+        const baseline = readPng(baselinePath);
+        mask = computeDiffMask(baseline, readPng(screenshotPath), threshold, ignoreRegions, antialiasing);
+        size = baseline;
+      }
+
+      const diffRegions = findDiffRegions(mask, size.width, size.height);
+      if (!diffPath || diffRegions.length === 0) {
+        return { diffRegions };
+      }
+
+      const annotatedDiffPath = getAnnotatedDiffPath(diffPath);
+      annotateDiffRegions(diffPath, diffRegions, annotatedDiffPath);
+      return { diffRegions, annotatedDiffPath };
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Apply the dimension policy to images whose sizes differ
+   */
+  private async compareMismatchedDimensions(
+    baselinePath: string,
+    screenshotPath: string,
+    diffPath: string | undefined,
+    options: CompareOptions
+  ): Promise<ComparisonResult> {
+    const policy = options.dimensionPolicy ?? this.config.comparison.dimensionPolicy;
+    const baselineSize = readPngSize(baselinePath);
+    const currentSize = readPngSize(screenshotPath);
+    const sizes = `baseline ${baselineSize.width}x${baselineSize.height}, current ${currentSize.width}x${currentSize.height}`;
+
+    if (policy === 'warn') {
+      return {
+        passed: true,
+        diffPixels: 0,
+        diffPercentage: 0,
+        totalPixels: 0,
+        diffPath: undefined,
+        warning: 'dimension-mismatch',
+      };
+    }
+
+    if (policy === 'pad-and-compare') {
+      return this.padAndCompare(baselinePath, screenshotPath, baselineSize, currentSize, diffPath, options);
+    }
+
+    if (policy === 'tolerance') {
+      const tolerance = this.config.comparison.dimensionTolerance;
+      if (
+        Math.abs(baselineSize.width - currentSize.width) <= tolerance &&
+        Math.abs(baselineSize.height - currentSize.height) <= tolerance
+      ) {
+        return this.padAndCompare(baselinePath, screenshotPath, baselineSize, currentSize, diffPath, options);
+      }
+
+      return {
+        passed: false,
+        diffPixels: -1,
+        diffPercentage: 100,
+        totalPixels: 0,
+        diffPath: undefined,
+        error: `Dimension mismatch beyond ${tolerance}px tolerance (${sizes})`,
+        warning: 'dimension-mismatch',
+      };
+    }
+
+    return {
+      passed: false,
+      diffPixels: -1,
+      diffPercentage: 100,
+      totalPixels: 0,
+      diffPath: undefined,
+      error: `Dimension mismatch (${sizes})`,
+      warning: 'dimension-mismatch',
+    };
+  }
+
+  /**
+   * Pad both images to the larger size and diff the area they share
+   * The padded area is ignored, so only the overlap counts towards thresholds
+   */
+  private async padAndCompare(
+    baselinePath: string,
+    screenshotPath: string,
+    baselineSize: ImageSize,
+    currentSize: ImageSize,
+    diffPath: string | undefined,
+    options: CompareOptions
+  ): Promise<ComparisonResult> {
+    const width = Math.max(baselineSize.width, currentSize.width);
+    const height = Math.max(baselineSize.height, currentSize.height);
+    const overlapWidth = Math.min(baselineSize.width, currentSize.width);
+    const overlapHeight = Math.min(baselineSize.height, currentSize.height);
+
+    const paddedRegions: IgnoreRegion[] = [];
+    if (overlapWidth < width) {
+      paddedRegions.push({ x: overlapWidth, y: 0, width: width - overlapWidth, height });
+    }
+    if (overlapHeight < height) {
+      paddedRegions.push({ x: 0, y: overlapHeight, width, height: height - overlapHeight });
+    }
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vrt-pad-'));
+    try {
+      const paddedBaseline = path.join(tempDir, 'baseline.png');
+      const paddedScreenshot = path.join(tempDir, 'current.png');
+      padPng(baselinePath, width, height, paddedBaseline);
+      padPng(screenshotPath, width, height, paddedScreenshot);
+
+      const result = await this.compare(paddedBaseline, paddedScreenshot, diffPath, {
+        ...options,
+        ignoreRegions: [...(options.ignoreRegions ?? []), ...paddedRegions],
+      });
+
+      return { ...result, warning: 'dimension-mismatch-padded' };
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  }
+
   /**
    * Evaluate if the test should pass based on configuration thresholds
    */
   private evaluatePass(
     diffPixels: number,
-    diffPercentage: number,
-    totalPixels: number
+    totalPixels: number,
+    thresholds: ComparisonThresholds
   ): boolean {
     // If no differences, always pass
     if (diffPixels === 0) {
@@ -186,13 +397,13 @@ export class ComparisonService {
     }
 
     // Check maxDiffPixels
-    if (diffPixels > this.config.comparison.maxDiffPixels) {
+    if (diffPixels > thresholds.maxDiffPixels) {
       return false;
     }
 
     // Check maxDiffPixelRatio (percentage)
     const diffRatio = totalPixels > 0 ? diffPixels / totalPixels : 0;
-    if (diffRatio > this.config.comparison.maxDiffPixelRatio) {
+    if (diffRatio > thresholds.maxDiffPixelRatio) {
       return false;
     }
 
@@ -205,10 +416,11 @@ export class ComparisonService {
   async compareScreenshot(
     scenarioId: string,
     viewportKey: string,
-    screenshotPath: string
+    screenshotPath: string,
+    options: ScreenshotCompareOptions = {}
   ): Promise<TestResult> {
     // Build paths
-    const filename = `${scenarioId}__${viewportKey}.png`;
+    const filename = getArtifactFilename(scenarioId, viewportKey);
     const baselinePath = path.join(this.config.baselineDir, filename);
     const diffPath = path.join(this.config.diffDir, filename);
 
@@ -227,7 +439,12 @@ export class ComparisonService {
     }
 
     try {
-      const result = await this.compare(baselinePath, screenshotPath, diffPath);
+      const result = await this.compare(baselinePath, screenshotPath, diffPath, {
+        ignoreRegions: this.toImageRegions(options),
+        dimensionPolicy: options.dimensionPolicy,
+        thresholds: options.thresholds,
+        engineOptions: options.engineOptions,
+      });
 
       return {
         scenarioId,
@@ -237,10 +454,13 @@ export class ComparisonService {
         passed: result.passed,
         diffPixels: result.diffPixels,
         diffPercentage: result.diffPercentage,
+        error: result.error,
         warning: result.warning,
         screenshotPath,
         baselinePath,
         diffPath: result.diffPath,
+        annotatedDiffPath: result.annotatedDiffPath,
+        diffRegions: result.diffRegions,
       };
     } catch (error) {
       return {
@@ -256,11 +476,205 @@ export class ComparisonService {
     }
   }
 
+  /**
+   * Compare a single tile against its baseline tile
+   */
+  async compareTile(
+    scenarioId: string,
+    viewportKey: string,
+    tileIndex: number,
+    screenshotPath: string,
+    options: ScreenshotCompareOptions = {}
+  ): Promise<TileResult> {
+    const filename = getTileFilename(scenarioId, viewportKey, tileIndex);
+    const baselinePath = path.join(this.config.baselineDir, filename);
+    const diffPath = path.join(this.config.diffDir, filename);
+
+    if (!fs.existsSync(baselinePath)) {
+      return {
+        tileIndex,
+        passed: false,
+        error: 'Baseline tile not found (page is taller than the baseline)',
+        screenshotPath,
+      };
+    }
+
+    const tileHeight = options.tileHeight ?? Infinity;
+    const offsetY = options.tileHeight ? tileIndex * options.tileHeight : 0;
+    const result = await this.compare(baselinePath, screenshotPath, diffPath, {
+      ignoreRegions: this.toImageRegions(options, offsetY, tileHeight),
+      dimensionPolicy: options.dimensionPolicy,
+      thresholds: options.thresholds,
+      engineOptions: options.engineOptions,
+    });
+
+    return {
+      tileIndex,
+      passed: result.passed,
+      diffPixels: result.diffPixels,
+      diffPercentage: result.diffPercentage,
+      error: result.error,
+      warning: result.warning,
+      screenshotPath,
+      baselinePath,
+      diffPath: result.diffPath,
+      annotatedDiffPath: result.annotatedDiffPath,
+      diffRegions: result.diffRegions,
+    };
+  }
+
+  /**
+   * Compare two captures of the same image with each other, e.g. for a stability check
+   * Every differing pixel counts and sizes must match; only the color threshold applies
+   */
+  async compareCaptures(
+    referencePath: string,
+    capturePath: string,
+    diffPath: string,
+    options: ScreenshotCompareOptions = {},
+    tileIndex = 0
+  ): Promise<ComparisonResult> {
+    const tileHeight = options.tileHeight ?? Infinity;
+    const offsetY = options.tileHeight ? tileIndex * options.tileHeight : 0;
+    const thresholds = options.thresholds ?? this.config.comparison;
+
+    return this.compare(referencePath, capturePath, diffPath, {
+      ignoreRegions: this.toImageRegions(options, offsetY, tileHeight),
+      dimensionPolicy: 'fail',
+      thresholds: { threshold: thresholds.threshold, maxDiffPixels: 0, maxDiffPixelRatio: 0 },
+      engineOptions: options.engineOptions,
+    });
+  }
+
+  /**
+   * Compare a tiled capture tile by tile and roll the tiles up into one result
+   * The test fails if any tile fails or the tile count differs from the baseline
+   */
+  async compareTiledScreenshot(
+    scenarioId: string,
+    viewportKey: string,
+    tilePaths: string[],
+    options: ScreenshotCompareOptions = {}
+  ): Promise<TestResult> {
+    const baselineCount = this.tiledBaselineCount(scenarioId, viewportKey);
+    const tileCount = Math.max(tilePaths.length, baselineCount);
+    const tiles: TileResult[] = [];
+
+    try {
+      for (let i = 0; i < tileCount; i++) {
+        if (i >= tilePaths.length) {
+          tiles.push({
+            tileIndex: i,
+            passed: false,
+            error: 'Tile missing from current capture (page is shorter than the baseline)',
+            baselinePath: this.getTileBaselinePath(scenarioId, viewportKey, i),
+          });
+          continue;
+        }
+
+        tiles.push(await this.compareTile(scenarioId, viewportKey, i, tilePaths[i], options));
+      }
+    } catch (error) {
+      return {
+        scenarioId,
+        scenarioTitle: scenarioId,
+        scenarioUrl: '',
+        viewport: viewportKey,
+        passed: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        screenshotPath: tilePaths[0],
+        baselinePath: this.getTileBaselinePath(scenarioId, viewportKey, 0),
+      };
+    }
+
+    const failedTiles = tiles.filter((t) => !t.passed);
+    const diffPixels = tiles.reduce((sum, t) => sum + Math.max(t.diffPixels ?? 0, 0), 0);
+
+    // All tiles share the same dimensions, so the average is the page-wide percentage
+    const diffPercentage = tiles.reduce(
+      (sum, t) => sum + (t.diffPixels !== undefined && t.diffPixels >= 0 ? t.diffPercentage ?? 0 : 0),
+      0
+    ) / tiles.length;
+
+    // Point the primary paths at the first failed tile so the report opens on it
+    const primaryTile = failedTiles.find((t) => t.screenshotPath && t.baselinePath) ?? tiles[0];
+
+    // Tiles are stacked top to bottom at equal heights, so tile regions map onto the page
+    const tilesWithRegions = tiles.filter((t) => t.diffRegions && t.diffRegions.length > 0 && t.screenshotPath);
+    const tileImageHeight = tilesWithRegions.length > 0
+      ? readPngSize(tilesWithRegions[0].screenshotPath as string).height
+      : 0;
+    const diffRegions = tilesWithRegions.flatMap((t) =>
+      (t.diffRegions ?? []).map((region) => ({
+        ...region,
+        y: region.y + t.tileIndex * tileImageHeight,
+        tile: t.tileIndex,
+      }))
+    );
+
+    return {
+      scenarioId,
+      scenarioTitle: scenarioId,
+      scenarioUrl: '',
+      viewport: viewportKey,
+      passed: failedTiles.length === 0,
+      diffPixels,
+      diffPercentage,
+      warning: tiles.find((t) => t.warning)?.warning,
+      screenshotPath: primaryTile.screenshotPath,
+      baselinePath: primaryTile.baselinePath,
+      diffPath: primaryTile.diffPath,
+      annotatedDiffPath: primaryTile.annotatedDiffPath,
+      diffRegions: diffRegions.length > 0 ? diffRegions : undefined,
+      tileCount: tiles.length,
+      tiles,
+    };
+  }
+
+  /**
+   * Count the consecutive baseline tiles stored for a scenario/viewport combination
+   * Returns 0 when the combination has no tiled baseline
+   */
+  tiledBaselineCount(scenarioId: string, viewportKey: string): number {
+    let count = 0;
+    while (fs.existsSync(this.getTileBaselinePath(scenarioId, viewportKey, count))) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Copy the tiles of a capture to the baseline directory
+   * Baseline tiles beyond the new tile count are removed
+   */
+  copyTilesToBaseline(tilePaths: string[], scenarioId: string, viewportKey: string): string[] {
+    this.ensureDirectoryExists(this.config.baselineDir);
+
+    const staleCount = this.tiledBaselineCount(scenarioId, viewportKey);
+    for (let i = tilePaths.length; i < staleCount; i++) {
+      fs.unlinkSync(this.getTileBaselinePath(scenarioId, viewportKey, i));
+    }
+
+    return tilePaths.map((tilePath, i) => {
+      const baselinePath = this.getTileBaselinePath(scenarioId, viewportKey, i);
+      fs.copyFileSync(tilePath, baselinePath);
+      return baselinePath;
+    });
+  }
+
+  /**
+   * Get baseline path for a single tile of a scenario/viewport combination
+   */
+  getTileBaselinePath(scenarioId: string, viewportKey: string, tileIndex: number): string {
+    const filename = getTileFilename(scenarioId, viewportKey, tileIndex);
+    return path.join(this.config.baselineDir, filename);
+  }
+
   /**
    * Check if a baseline exists for a given scenario/viewport combination
    */
   baselineExists(scenarioId: string, viewportKey: string): boolean {
-    const filename = `${scenarioId}__${viewportKey}.png`;
+    const filename = getArtifactFilename(scenarioId, viewportKey);
     const baselinePath = path.join(this.config.baselineDir, filename);
     return fs.existsSync(baselinePath);
   }
@@ -269,7 +683,7 @@ export class ComparisonService {
    * Copy a screenshot to the baseline directory
    */
   copyToBaseline(screenshotPath: string, scenarioId: string, viewportKey: string): string {
-    const filename = `${scenarioId}__${viewportKey}.png`;
+    const filename = getArtifactFilename(scenarioId, viewportKey);
     const baselinePath = path.join(this.config.baselineDir, filename);
 
     this.ensureDirectoryExists(this.config.baselineDir);
@@ -282,7 +696,7 @@ export class ComparisonService {
    * Get baseline path for a scenario/viewport combination
    */
   getBaselinePath(scenarioId: string, viewportKey: string): string {
-    const filename = `${scenarioId}__${viewportKey}.png`;
+    const filename = getArtifactFilename(scenarioId, viewportKey);
     return path.join(this.config.baselineDir, filename);
   }
 
@@ -0,0 +1,63 @@
+/**
+ * Comparison Engines
+ * Common interface for the libraries that diff a screenshot against its baseline
+ */
+
+import { ComparisonEngineName, DiffStyle, IgnoreRegion } from '../../types';
+import { OdiffEngine } from './odiff';
+import { PixelmatchEngine } from './pixelmatch';
+import { SsimEngine } from './ssim';
+
+export interface EngineCompareOptions {
+  /** Color difference threshold (0-1); the SSIM engine uses it as 1 - minimum local similarity */
+  threshold: number;
+  /** Regions left out of the diff count, in image pixels */
+  ignoreRegions: IgnoreRegion[];
+  /** Leave anti-aliased pixels out of the diff count */
+  antialiasing: boolean;
+  /** Hex color of changed pixels in the diff image */
+  diffColor: string;
+  /** Draw changed pixels over the current image, or alone on a transparent background */
+  diffStyle: DiffStyle;
+  /** Where to write the diff image when the images differ */
+  diffPath?: string;
+}
+
+/**
+ * Outcome of an engine comparison, shaped after ODiff's result
+ */
+export type EngineResult =
+  | { match: true }
+  | { match: false; reason: 'layout-diff' }
+  | {
+      match: false;
+      reason: 'pixel-diff';
+      diffCount: number;
+      diffPercentage: number;
+      /** One byte per pixel, 1 where the pixel changed; engines that can't provide it leave it out */
+      diffMask?: Uint8Array;
+    }
+  | { match: false; reason: 'file-not-exists'; file: string };
+
+export interface ComparisonEngine {
+  readonly name: ComparisonEngineName;
+  compare(baselinePath: string, screenshotPath: string, options: EngineCompareOptions): Promise<EngineResult>;
+}
+
+export const COMPARISON_ENGINES: ComparisonEngineName[] = ['odiff', 'pixelmatch', 'ssim'];
+
+/**
+ * Create the engine configured in comparison.engine
+ */
+export function createComparisonEngine(name: ComparisonEngineName): ComparisonEngine {
+  switch (name) {
+    case 'odiff':
+      return new OdiffEngine();
+    case 'pixelmatch':
+      return new PixelmatchEngine();
+    case 'ssim':
+      return new SsimEngine();
+    default:
+      throw new Error(`Unknown comparison engine: ${name}`);
+  }
+}
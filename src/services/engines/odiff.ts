@@ -0,0 +1,89 @@
+/**
+ * ODiff Engine
+ * Native image comparison through the odiff-bin package (default engine)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DiffStyle } from '../../types';
+import { readPng } from '../../utils/png';
+import { ComparisonEngine, EngineCompareOptions, EngineResult } from './index';
+
+/**
+ * Read the pixels ODiff marked as changed from its diff image
+ * The mask style leaves unchanged pixels transparent; the overlay style copies them
+ * unchanged from the current capture, so any pixel that differs from it was marked
+ */
+function readDiffMask(diffPath: string, screenshotPath: string, diffStyle: DiffStyle): Uint8Array {
+  const diff = readPng(diffPath);
+  const current = diffStyle === 'mask' ? undefined : readPng(screenshotPath);
+  const mask = new Uint8Array(diff.width * diff.height);
+
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    const i = pixel * 4;
+    if (!current) {
+      mask[pixel] = diff.data[i + 3] > 0 ? 1 : 0;
+    } else if (
+      diff.data[i] !== current.data[i] ||
+      diff.data[i + 1] !== current.data[i + 1] ||
+      diff.data[i + 2] !== current.data[i + 2] ||
+      diff.data[i + 3] !== current.data[i + 3]
+    ) {
+      mask[pixel] = 1;
+    }
+  }
+
+  return mask;
+}
+
+export class OdiffEngine implements ComparisonEngine {
+  readonly name = 'odiff' as const;
+
+  async compare(baselinePath: string, screenshotPath: string, options: EngineCompareOptions): Promise<EngineResult> {
+    // Loaded on first use so the other engines work where the native binary isn't installed
+    let odiff: typeof import('odiff-bin');
+    try {
+      odiff = await import('odiff-bin');
+    } catch {
+      throw new Error('odiff-bin is not installed. Install it or set comparison.engine to "pixelmatch" or "ssim".');
+    }
+
+    // The diff image is also where the changed pixels are read from, so one is always written
+    const tempDir = options.diffPath ? undefined : fs.mkdtempSync(path.join(os.tmpdir(), 'vrt-odiff-'));
+    const diffPath = options.diffPath || path.join(tempDir as string, 'diff.png');
+
+    try {
+      // ODiff draws its overlay on the first image, so the current capture goes first;
+      // the diff count is the same either way round
+      const result = await odiff.compare(screenshotPath, baselinePath, diffPath, {
+        threshold: options.threshold,
+        failOnLayoutDiff: true, // Return layout-diff reason for dimension mismatches
+        antialiasing: options.antialiasing,
+        diffColor: options.diffColor,
+        outputDiffMask: options.diffStyle === 'mask',
+        // ODiff fails on an ignoreRegions key without a value, so only add it when needed
+        ...(options.ignoreRegions.length > 0
+          ? {
+              ignoreRegions: options.ignoreRegions.map((region) => ({
+                x1: region.x,
+                y1: region.y,
+                x2: region.x + region.width - 1,
+                y2: region.y + region.height - 1,
+              })),
+            }
+          : {}),
+      });
+
+      if (result.match || result.reason !== 'pixel-diff' || !fs.existsSync(diffPath)) {
+        return result;
+      }
+
+      return { ...result, diffMask: readDiffMask(diffPath, screenshotPath, options.diffStyle) };
+    } finally {
+      if (tempDir) {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    }
+  }
+}
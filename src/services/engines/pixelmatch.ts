@@ -0,0 +1,56 @@
+/**
+ * Pixelmatch Engine
+ * Pure-JS pixel comparison that runs wherever Node runs
+ */
+
+import * as fs from 'fs';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { copyRegions, parseHexColor, readPng } from '../../utils/png';
+import { ComparisonEngine, EngineCompareOptions, EngineResult } from './index';
+
+export class PixelmatchEngine implements ComparisonEngine {
+  readonly name = 'pixelmatch' as const;
+
+  async compare(baselinePath: string, screenshotPath: string, options: EngineCompareOptions): Promise<EngineResult> {
+    for (const file of [baselinePath, screenshotPath]) {
+      if (!fs.existsSync(file)) {
+        return { match: false, reason: 'file-not-exists', file };
+      }
+    }
+
+    const baseline = readPng(baselinePath);
+    const current = readPng(screenshotPath);
+
+    if (baseline.width !== current.width || baseline.height !== current.height) {
+      return { match: false, reason: 'layout-diff' };
+    }
+
+    copyRegions(baseline, current, options.ignoreRegions);
+
+    const { width, height } = baseline;
+    const diff = new PNG({ width, height });
+    // The overlay is drawn on a faded copy of the first image, so the current capture goes first
+    const diffCount = pixelmatch(current.data, baseline.data, diff.data, width, height, {
+      threshold: options.threshold,
+      includeAA: !options.antialiasing,
+      diffColor: parseHexColor(options.diffColor),
+      diffMask: options.diffStyle === 'mask',
+    });
+
+    if (diffCount === 0) {
+      return { match: true };
+    }
+
+    if (options.diffPath) {
+      fs.writeFileSync(options.diffPath, PNG.sync.write(diff));
+    }
+
+    return {
+      match: false,
+      reason: 'pixel-diff',
+      diffCount,
+      diffPercentage: (diffCount / (width * height)) * 100,
+    };
+  }
+}
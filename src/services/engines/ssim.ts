@@ -0,0 +1,123 @@
+/**
+ * SSIM Engine
+ * Perceptual comparison based on local structural similarity (ssim.js)
+ * Tolerates sub-pixel text rendering noise that a raw pixel count reports
+ */
+
+import * as fs from 'fs';
+import { PNG } from 'pngjs';
+import { ssim } from 'ssim.js';
+import { copyRegions, parseHexColor, readPng } from '../../utils/png';
+import { ComparisonEngine, EngineCompareOptions, EngineResult } from './index';
+
+// Side of the square window each local similarity is computed over
+const WINDOW_SIZE = 11;
+
+export class SsimEngine implements ComparisonEngine {
+  readonly name = 'ssim' as const;
+
+  /**
+   * A pixel counts as different when the similarity of the window centred
+   * on it falls below 1 - threshold, so the same thresholds apply as with
+   * the pixel engines
+   */
+  async compare(baselinePath: string, screenshotPath: string, options: EngineCompareOptions): Promise<EngineResult> {
+    for (const file of [baselinePath, screenshotPath]) {
+      if (!fs.existsSync(file)) {
+        return { match: false, reason: 'file-not-exists', file };
+      }
+    }
+
+    const baseline = readPng(baselinePath);
+    const current = readPng(screenshotPath);
+
+    if (baseline.width !== current.width || baseline.height !== current.height) {
+      return { match: false, reason: 'layout-diff' };
+    }
+
+    copyRegions(baseline, current, options.ignoreRegions);
+
+    const { width, height } = baseline;
+    if (width < WINDOW_SIZE || height < WINDOW_SIZE) {
+      // Too small for a similarity window; fall back to an exact match
+      return baseline.data.equals(current.data)
+        ? { match: true }
+        : { match: false, reason: 'pixel-diff', diffCount: width * height, diffPercentage: 100 };
+    }
+
+    const { ssim_map: map } = ssim(toImageData(baseline), toImageData(current), {
+      ssim: 'weber',
+      windowSize: WINDOW_SIZE,
+      downsample: false, // Keep full resolution so small regressions aren't averaged away
+    });
+
+    const minSimilarity = 1 - options.threshold;
+    const offset = Math.floor(WINDOW_SIZE / 2);
+    const diffMask = new Uint8Array(width * height);
+    let diffCount = 0;
+
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        if (map.data[y * map.width + x] < minSimilarity) {
+          diffMask[(y + offset) * width + x + offset] = 1;
+          diffCount++;
+        }
+      }
+    }
+
+    if (diffCount === 0) {
+      return { match: true };
+    }
+
+    if (options.diffPath) {
+      fs.writeFileSync(options.diffPath, PNG.sync.write(renderDiff(current, diffMask, options)));
+    }
+
+    return {
+      match: false,
+      reason: 'pixel-diff',
+      diffCount,
+      diffPercentage: (diffCount / (width * height)) * 100,
+      diffMask,
+    };
+  }
+}
+
+/**
+ * View decoded PNG data as the ImageData shape ssim.js expects
+ */
+function toImageData(png: PNG): { data: Uint8ClampedArray; width: number; height: number } {
+  return {
+    data: new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length),
+    width: png.width,
+    height: png.height,
+  };
+}
+
+/**
+ * Draw the differing pixels in the diff color, either over a faded grayscale copy
+ * of the current image or alone on a transparent background
+ */
+function renderDiff(current: PNG, diffMask: Uint8Array, options: EngineCompareOptions): PNG {
+  const diff = new PNG({ width: current.width, height: current.height });
+  const [red, green, blue] = parseHexColor(options.diffColor);
+
+  for (let pixel = 0; pixel < diffMask.length; pixel++) {
+    const i = pixel * 4;
+    if (diffMask[pixel]) {
+      diff.data[i] = red;
+      diff.data[i + 1] = green;
+      diff.data[i + 2] = blue;
+      diff.data[i + 3] = 255;
+    } else if (options.diffStyle === 'overlay') {
+      const gray = 0.299 * current.data[i] + 0.587 * current.data[i + 1] + 0.114 * current.data[i + 2];
+      const faded = 255 - (255 - gray) * 0.1;
+      diff.data[i] = faded;
+      diff.data[i + 1] = faded;
+      diff.data[i + 2] = faded;
+      diff.data[i + 3] = 255;
+    }
+  }
+
+  return diff;
+}
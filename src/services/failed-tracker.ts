@@ -5,12 +5,20 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import { BrowserEngine, CaptureInfo } from '../types';
+import { DEFAULT_BROWSER } from '../utils/browser';
 
 const FAILED_FILE = '.vrt-failed.json';
 
 export interface FailedTest {
   scenarioId: string;
   viewport: string;
+  browser?: BrowserEngine;
+  checkpoint?: string;
+  // Number of tiles of a tiled capture
+  tileCount?: number;
+  // How the failed image was captured; absent when the capture itself failed
+  capture?: CaptureInfo;
 }
 
 export interface FailedTestsData {
@@ -56,6 +64,22 @@ export function loadFailedTests(): FailedTest[] {
   }
 }
 
+/**
+ * Find the saved failed test for a scenario/viewport/browser/checkpoint combination
+ */
+export function findFailedTest(
+  tests: FailedTest[],
+  key: Pick<FailedTest, 'scenarioId' | 'viewport' | 'browser' | 'checkpoint'>
+): FailedTest | undefined {
+  return tests.find(
+    (test) =>
+      test.scenarioId === key.scenarioId &&
+      test.viewport === key.viewport &&
+      (test.browser ?? DEFAULT_BROWSER) === (key.browser ?? DEFAULT_BROWSER) &&
+      (test.checkpoint ?? null) === (key.checkpoint ?? null)
+  );
+}
+
 /**
  * Check if there are any failed tests saved
  */
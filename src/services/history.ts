@@ -0,0 +1,112 @@
+/**
+ * Run History Service
+ * Stores a summary of every test run in .vrt/history, one JSON file per run
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { HistoryRun, HistoryTestEntry, TestResult, TestRunSummary } from '../types';
+import { getGitSha } from '../utils/git';
+
+export const HISTORY_DIR = path.join('.vrt', 'history');
+
+export interface RecordRunOptions {
+  scenario?: string[];
+  viewport?: string[];
+  failed?: boolean;
+}
+
+/**
+ * Strip a test result down to what trend tracking needs (no image paths or regions)
+ * Undefined fields are left out of the JSON file
+ */
+function toHistoryEntry(result: TestResult): HistoryTestEntry {
+  return {
+    scenarioId: result.scenarioId,
+    viewport: result.viewport,
+    browser: result.browser,
+    checkpoint: result.checkpoint,
+    passed: result.passed,
+    diffPixels: result.diffPixels,
+    diffPercentage: result.diffPercentage,
+    duration: result.duration,
+    error: result.error,
+    flaky: result.stability ? !result.stability.stable : undefined,
+  };
+}
+
+export class HistoryService {
+  private historyDir: string;
+
+  constructor(historyDir: string = path.join(process.cwd(), HISTORY_DIR)) {
+    this.historyDir = historyDir;
+  }
+
+  /**
+   * Save a finished run and return the path of its file
+   */
+  record(summary: TestRunSummary, startedAt: Date, options: RecordRunOptions = {}): string {
+    if (!fs.existsSync(this.historyDir)) {
+      fs.mkdirSync(this.historyDir, { recursive: true });
+    }
+
+    // ISO timestamps sort chronologically; colons aren't allowed in Windows filenames
+    // Runs started in the same millisecond get a numeric suffix instead of replacing each other
+    const stem = startedAt.toISOString().replace(/[:.]/g, '-');
+    let id = stem;
+    for (let suffix = 2; fs.existsSync(path.join(this.historyDir, `${id}.json`)); suffix++) {
+      id = `${stem}_${suffix}`;
+    }
+    const run: HistoryRun = {
+      version: 1,
+      id,
+      startedAt: startedAt.toISOString(),
+      duration: summary.duration,
+      total: summary.total,
+      passed: summary.passed,
+      failed: summary.failed,
+      skipped: summary.skipped,
+      gitSha: getGitSha(),
+      filters: {
+        scenario: options.scenario,
+        viewport: options.viewport,
+        failedOnly: !!options.failed,
+      },
+      tests: summary.results.map(toHistoryEntry),
+    };
+
+    const runPath = path.join(this.historyDir, `${id}.json`);
+    fs.writeFileSync(runPath, JSON.stringify(run, null, 2) + '\n', { flag: 'wx' });
+    return runPath;
+  }
+
+  /**
+   * Load recorded runs, oldest first
+   * Unreadable files are skipped; with a limit, only the most recent runs are returned
+   */
+  list(limit?: number): HistoryRun[] {
+    if (!fs.existsSync(this.historyDir)) {
+      return [];
+    }
+
+    const files = fs
+      .readdirSync(this.historyDir)
+      .filter((file) => file.endsWith('.json'))
+      .sort();
+    const selected = limit !== undefined ? files.slice(-limit) : files;
+
+    const runs: HistoryRun[] = [];
+    for (const file of selected) {
+      try {
+        const run = JSON.parse(fs.readFileSync(path.join(this.historyDir, file), 'utf-8')) as HistoryRun;
+        if (Array.isArray(run.tests)) {
+          runs.push(run);
+        }
+      } catch {
+        // Skip files that were truncated or edited by hand
+      }
+    }
+
+    return runs;
+  }
+}
@@ -3,37 +3,71 @@
  * Handles screenshot capture using Playwright with parallel worker support
  */
 
-import { chromium, Browser, Page, BrowserContext } from '@playwright/test';
+import { chromium, firefox, webkit, Browser, BrowserType, Page, BrowserContext, Locator } from '@playwright/test';
 import * as fs from 'fs';
 import * as path from 'path';
-import { VrtConfig, Scenario, Viewport, Interaction } from '../types';
+import { VrtConfig, Scenario, Viewport, Interaction, BrowserEngine, Shard } from '../types';
+import { BROWSER_ENGINES, DEFAULT_BROWSER, getBrowserViewportKey, resolveBrowsers } from '../utils/browser';
+import { getCheckpointName, getCheckpointViewportKey, parseViewportSize } from '../utils/interactions';
+import { resolveHttpSettings } from '../utils/http';
+import { getArtifactFilename, getTileFilename } from '../utils/artifact-name';
+import { selectShard } from '../utils/shard';
+import { AuthService, StorageState } from './auth';
+
+const BROWSER_TYPES: Record<BrowserEngine, BrowserType> = {
+  chromium,
+  firefox,
+  webkit,
+};
+
+// Page global holding the real timers, saved before environment.clock fakes them.
+// Capture helpers wait on these so they still finish when environment.pauseTimers is set
+const REAL_TIMERS = 'window.__vrtTimers';
 
 interface CaptureTask {
   scenario: Scenario;
   viewport: Viewport;
+  browser: BrowserEngine;
   outputDir: string;
   index: number;
 }
 
 interface CaptureResult {
   key: string;
-  path: string;
+  capture: CapturedScreenshot | null;
   index: number;
   error?: string;
   scenarioId?: string;
   viewport?: string;
+  browser?: BrowserEngine;
+}
+
+export interface CapturedScreenshot {
+  path: string;
+  tiles?: string[];
+  tileHeight?: number;
+  checkpoints?: CapturedCheckpoint[];
+}
+
+export interface CapturedCheckpoint {
+  name: string;
+  path: string;
+  tiles?: string[];
+  tileHeight?: number;
 }
 
 export interface CaptureAllResult {
-  successes: Map<string, string>;
-  failures: { scenarioId: string; viewport: string; error: string }[];
+  successes: Map<string, CapturedScreenshot>;
+  failures: { scenarioId: string; viewport: string; browser: BrowserEngine; error: string }[];
 }
 
 export class ScreenshotService {
   private config: VrtConfig;
-  private browser: Browser | null = null;
+  private browsers = new Map<BrowserEngine, Promise<Browser>>();
   private headless: boolean;
   private workers: number;
+  // Path of the saved storage state, or the merged state of several domains
+  private storageState: string | StorageState | null = null;
 
   constructor(config: VrtConfig, headless?: boolean) {
     this.config = config;
@@ -42,25 +76,93 @@ export class ScreenshotService {
   }
 
   /**
-   * Initialize the browser
+   * Initialize the browsers configured in playwright.browsers
+   * Engines named only by a viewport are launched on first use
    */
   async initialize(): Promise<void> {
-    if (!this.browser) {
-      this.browser = await chromium.launch({
+    await Promise.all(
+      this.config.playwright.browsers.map((engine) => this.getBrowser(engine))
+    );
+  }
+
+  /**
+   * Run the configured login flow once and reuse its storage state
+   * for every context created afterwards
+   * Returns false when no login flow is configured
+   */
+  async authenticate(domain?: string | null): Promise<boolean> {
+    const authService = new AuthService(this.config);
+    if (!authService.isEnabled()) {
+      return false;
+    }
+
+    const browser = await this.getBrowser(this.config.playwright.browsers[0] ?? DEFAULT_BROWSER);
+    this.storageState = await authService.login(browser, domain);
+    return true;
+  }
+
+  /**
+   * Log in on each domain and share one storage state holding every session
+   * Used when a run captures more than one environment
+   * Returns false when no login flow is configured
+   */
+  async authenticateDomains(domains: (string | null)[]): Promise<boolean> {
+    const authService = new AuthService(this.config);
+    if (!authService.isEnabled()) {
+      return false;
+    }
+
+    const browser = await this.getBrowser(this.config.playwright.browsers[0] ?? DEFAULT_BROWSER);
+    this.storageState = await authService.loginAll(browser, domains);
+    return true;
+  }
+
+  /**
+   * Get the browser for an engine, launching it once if needed
+   * The launch promise is shared so parallel workers don't launch duplicates
+   */
+  private getBrowser(engine: BrowserEngine): Promise<Browser> {
+    if (!BROWSER_ENGINES.includes(engine)) {
+      return Promise.reject(new Error(`Unknown browser engine: ${engine}`));
+    }
+
+    let browser = this.browsers.get(engine);
+    if (!browser) {
+      browser = BROWSER_TYPES[engine].launch({
         headless: this.headless,
         slowMo: this.headless ? 0 : 100, // Slow down actions when headed for visibility
       });
+      // Forget failed launches so a retry can try again
+      browser.catch(() => this.browsers.delete(engine));
+      this.browsers.set(engine, browser);
     }
+
+    return browser;
   }
 
   /**
-   * Close the browser
+   * Close all browsers
    */
   async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close();
-      this.browser = null;
-    }
+    const browsers = [...this.browsers.values()];
+    this.browsers.clear();
+
+    await Promise.all(
+      browsers.map(async (browser) => {
+        try {
+          await (await browser).close();
+        } catch {
+          // Browser failed to launch or is already closed
+        }
+      })
+    );
+  }
+
+  /**
+   * Get the version string of an engine's browser (e.g. "131.0.6778.33")
+   */
+  async getBrowserVersion(engine: BrowserEngine): Promise<string> {
+    return (await this.getBrowser(engine)).version();
   }
 
   /**
@@ -76,10 +178,44 @@ export class ScreenshotService {
    * Generate a safe filename from scenario and viewport
    */
   generateFilename(scenarioId: string, viewportKey: string): string {
-    // Sanitize the scenario ID for use in filenames
-    const safeId = scenarioId.replace(/[^a-zA-Z0-9_-]/g, '_');
-    const safeViewport = viewportKey.replace(/[^a-zA-Z0-9_-]/g, '_');
-    return `${safeId}__${safeViewport}.png`;
+    return getArtifactFilename(scenarioId, viewportKey);
+  }
+
+  /**
+   * Generate a safe filename for a single tile of a tiled capture
+   */
+  generateTileFilename(scenarioId: string, viewportKey: string, tileIndex: number): string {
+    return getTileFilename(scenarioId, viewportKey, tileIndex);
+  }
+
+  /**
+   * Whether the viewport is captured as fixed-height tiles instead of one full-page image
+   * Element scenarios always capture just the target element
+   */
+  usesTiles(scenario: Scenario, viewport: Viewport): boolean {
+    return (
+      scenario.mode !== 'element' &&
+      viewport.full_page &&
+      this.config.capture.strategy === 'tiled'
+    );
+  }
+
+  /**
+   * Remove tiles left over from a previous capture of the same scenario/viewport
+   * A page that got shorter would otherwise keep its old trailing tiles around
+   */
+  private removeStaleTiles(outputDir: string, scenarioId: string, viewportKey: string): void {
+    if (!fs.existsSync(outputDir)) {
+      return;
+    }
+
+    const prefix = this.generateFilename(scenarioId, viewportKey).replace(/\.png$/, '__tile');
+
+    for (const file of fs.readdirSync(outputDir)) {
+      if (file.startsWith(prefix) && /__tile\d+\.png$/.test(file)) {
+        fs.unlinkSync(path.join(outputDir, file));
+      }
+    }
   }
 
   /**
@@ -91,17 +227,18 @@ export class ScreenshotService {
     const maxScrollHeight = 50000; // Cap at 50,000px to avoid infinite scroll pages
 
     await page.evaluate(`(async () => {
+      const { setInterval, clearInterval, now } = ${REAL_TIMERS};
       await new Promise((resolve) => {
         let totalHeight = 0;
         const distance = 300;
         const scrollDelay = 100;
-        const startTime = Date.now();
+        const startTime = now();
         const maxTime = ${maxScrollTime};
         const maxHeight = ${maxScrollHeight};
 
         const timer = setInterval(() => {
           // Timeout check - prevent infinite hangs
-          if (Date.now() - startTime > maxTime) {
+          if (now() - startTime > maxTime) {
             clearInterval(timer);
             window.scrollTo(0, 0);
             resolve();
@@ -137,6 +274,7 @@ export class ScreenshotService {
     const imageTimeout = 10000; // 10 seconds max for all images
 
     await page.evaluate(`(async () => {
+      const { setTimeout } = ${REAL_TIMERS};
       const images = Array.from(document.querySelectorAll('img'));
       const timeout = new Promise(resolve => setTimeout(resolve, ${imageTimeout}));
 
@@ -246,6 +384,7 @@ export class ScreenshotService {
     }
 
     await page.evaluate(`(async () => {
+      const { setTimeout } = ${REAL_TIMERS};
       const videos = document.querySelectorAll('video');
 
       await Promise.all(
@@ -320,14 +459,43 @@ export class ScreenshotService {
     await page.waitForTimeout(200);
   }
 
+  /**
+   * Wait for the page to be ready for a screenshot
+   * Runs before the final screenshot and before every checkpoint
+   */
+  private async settlePage(page: Page, viewport: Viewport): Promise<void> {
+    // Wait for fonts to load
+    await this.waitForFonts(page);
+
+    // Handle lazy loading for full-page screenshots
+    if (viewport.full_page) {
+      // Force load all lazy background images immediately
+      // This bypasses Intersection Observer by directly setting attributes
+      await this.forceLazyBackgroundImages(page);
+
+      // Scroll through page to trigger any remaining lazy loading
+      await this.triggerLazyLoading(page);
+
+      // Wait for all images to finish loading
+      await this.waitForAllImages(page);
+
+      // Wait for page height to stabilize
+      await this.waitForStableHeight(page);
+    } else {
+      // For non-full-page, still wait for basic stability
+      await page.waitForTimeout(300);
+    }
+  }
+
   /**
    * Execute interactions on the page
    */
   private async executeInteractions(
     page: Page,
-    interactions: Interaction[]
+    interactions: Interaction[],
+    onCheckpoint?: (name: string) => Promise<void>
   ): Promise<void> {
-    for (const interaction of interactions) {
+    for (const [index, interaction] of interactions.entries()) {
       switch (interaction.type) {
         case 'click':
           if (interaction.selector) {
@@ -353,6 +521,67 @@ export class ScreenshotService {
           }
           break;
 
+        case 'scroll_to':
+          if (interaction.selector) {
+            await page.locator(interaction.selector).first().scrollIntoViewIfNeeded();
+          }
+          break;
+
+        case 'press_key':
+          if (interaction.value !== null) {
+            if (interaction.selector) {
+              await page.press(interaction.selector, interaction.value);
+            } else {
+              await page.keyboard.press(interaction.value);
+            }
+          }
+          break;
+
+        case 'select_option':
+          if (interaction.selector && interaction.value !== null) {
+            await page.selectOption(interaction.selector, interaction.value);
+          }
+          break;
+
+        case 'focus':
+          if (interaction.selector) {
+            await page.focus(interaction.selector);
+          }
+          break;
+
+        case 'check':
+          // A value of "false" unchecks the element instead
+          if (interaction.selector) {
+            await page.setChecked(interaction.selector, interaction.value !== 'false');
+          }
+          break;
+
+        case 'wait_for_selector':
+          if (interaction.selector) {
+            await page.waitForSelector(interaction.selector, { state: 'visible' });
+          }
+          break;
+
+        case 'wait_for_hidden':
+          if (interaction.selector) {
+            await page.waitForSelector(interaction.selector, { state: 'hidden' });
+          }
+          break;
+
+        case 'set_viewport': {
+          const size = parseViewportSize(interaction.value);
+          if (size) {
+            await page.setViewportSize(size);
+          }
+          break;
+        }
+
+        case 'evaluate':
+          if (interaction.value) {
+            await page.evaluate(interaction.value);
+          }
+          break;
+
         default:
           console.warn(`Unknown interaction type: ${interaction.type}`);
       }
@@ -365,34 +594,238 @@ export class ScreenshotService {
       ) {
         await page.waitForTimeout(interaction.wait_ms);
       }
+
+      // Capture the UI state reached by this interaction
+      const checkpoint = getCheckpointName(interaction, index);
+      if (checkpoint && onCheckpoint) {
+        await onCheckpoint(checkpoint);
+      }
+    }
+  }
+
+  /**
+   * Build the locators painted out in every screenshot of the scenario
+   * Playwright overlays each matched element with a solid box before capturing
+   */
+  private getMaskLocators(page: Page, scenario: Scenario): Locator[] {
+    return (scenario.mask_selectors ?? []).map((selector) => page.locator(selector));
+  }
+
+  /**
+   * Get the tile height in CSS pixels for a viewport
+   */
+  getTileHeight(viewport: Viewport): number {
+    return this.config.capture.tileHeight
+      ?? (viewport.height > 0 ? viewport.height : 800);
+  }
+
+  /**
+   * Capture a full-page viewport as fixed-height tiles
+   * The document is padded to a whole number of tiles so every tile, including
+   * the last one, has identical dimensions and can be compared pixel by pixel.
+   * The padding is removed afterwards, so later interactions see the page as it was
+   */
+  private async captureTiles(
+    page: Page,
+    scenario: Scenario,
+    viewportKey: string,
+    viewport: Viewport,
+    outputDir: string
+  ): Promise<string[]> {
+    const tileHeight = this.getTileHeight(viewport);
+    const originalMinHeight = await page.evaluate('document.documentElement.style.minHeight') as string;
+
+    const pageHeight = await page.evaluate(
+      'Math.max(document.documentElement.scrollHeight, document.body ? document.body.scrollHeight : 0)'
+    ) as number;
+    const tileCount = Math.max(1, Math.ceil(pageHeight / tileHeight));
+
+    // Pad the page so the last tile is not clipped to the remaining content height
+    await page.evaluate(
+      `document.documentElement.style.minHeight = '${tileCount * tileHeight}px'`
+    );
+
+    this.removeStaleTiles(outputDir, scenario.id, viewportKey);
+
+    const tiles: string[] = [];
+    try {
+      for (let i = 0; i < tileCount; i++) {
+        const filename = this.generateTileFilename(scenario.id, viewportKey, i);
+        const tilePath = path.join(outputDir, filename);
+
+        await page.screenshot({
+          path: tilePath,
+          fullPage: true,
+          clip: { x: 0, y: i * tileHeight, width: viewport.width, height: tileHeight },
+          mask: this.getMaskLocators(page, scenario),
+          timeout: this.config.playwright.screenshotTimeout,
+        });
+
+        tiles.push(tilePath);
+      }
+    } finally {
+      await page.evaluate(
+        `document.documentElement.style.minHeight = ${JSON.stringify(originalMinHeight)}`
+      );
+    }
+
+    return tiles;
+  }
+
+  /**
+   * Take the screenshot of the page in its current state
+   * Uses tiles, the target element or the page depending on scenario and viewport
+   */
+  private async takeScreenshot(
+    page: Page,
+    scenario: Scenario,
+    viewport: Viewport,
+    viewportKey: string,
+    outputDir: string
+  ): Promise<CapturedScreenshot> {
+    // Split full-page captures into fixed-height tiles when configured
+    if (this.usesTiles(scenario, viewport)) {
+      const tiles = await this.captureTiles(page, scenario, viewportKey, viewport, outputDir);
+      return { path: tiles[0], tiles, tileHeight: this.getTileHeight(viewport) };
+    }
+
+    // Generate filename and full path
+    const filename = this.generateFilename(scenario.id, viewportKey);
+    const screenshotPath = path.join(outputDir, filename);
+
+    // Element scenarios capture only the bounding box of the target element
+    if (scenario.mode === 'element') {
+      await page.locator(scenario.target_selector as string).first().screenshot({
+        path: screenshotPath,
+        mask: this.getMaskLocators(page, scenario),
+        timeout: this.config.playwright.screenshotTimeout,
+      });
+
+      return { path: screenshotPath };
+    }
+
+    // Capture screenshot
+    await page.screenshot({
+      path: screenshotPath,
+      fullPage: viewport.full_page,
+      mask: this.getMaskLocators(page, scenario),
+      timeout: this.config.playwright.screenshotTimeout,
+    });
+
+    return { path: screenshotPath };
+  }
+
+  /**
+   * Freeze the clock and seed Math.random before any page script runs
+   */
+  private async applyDeterministicScripts(context: BrowserContext): Promise<void> {
+    const { clock, pauseTimers, randomSeed } = this.config.environment;
+
+    // Registered before the clock so it runs first and keeps the page's real timers
+    await context.addInitScript(`${REAL_TIMERS} = {
+      setTimeout: window.setTimeout.bind(window),
+      setInterval: window.setInterval.bind(window),
+      clearInterval: window.clearInterval.bind(window),
+      now: performance.now.bind(performance),
+    }`);
+
+    if (clock && pauseTimers) {
+      // Every page starts paused at the clock time: timers, intervals and animation frames never fire
+      await context.clock.install({ time: new Date(clock) });
+      await context.clock.pauseAt(new Date(clock));
+    } else if (clock) {
+      // Date is fixed but timers keep firing, so pages still finish loading
+      await context.clock.setFixedTime(new Date(clock));
+    }
+
+    if (randomSeed !== null) {
+      await context.addInitScript((seed: number) => {
+        // mulberry32: small, fast and good enough for layout decisions
+        let state = seed >>> 0;
+        Math.random = () => {
+          state = (state + 0x6d2b79f5) >>> 0;
+          let t = state;
+          t = Math.imul(t ^ (t >>> 15), t | 1);
+          t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+          return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+      }, randomSeed);
+    }
+  }
+
+  /**
+   * Register the configured request blocking and fixture routes on a page
+   * Playwright matches the most recently registered route first, so
+   * fixtures win over block rules for the same URL
+   */
+  private async applyNetworkRules(page: Page): Promise<void> {
+    for (const pattern of this.config.network.block) {
+      await page.route(pattern, (route) => route.abort('blockedbyclient'));
+    }
+
+    for (const fixture of this.config.network.fixtures) {
+      const fixturePath = path.resolve(process.cwd(), fixture.path);
+      await page.route(fixture.url, (route) =>
+        route.fulfill({
+          path: fixturePath,
+          status: fixture.status ?? 200,
+          contentType: fixture.contentType ?? undefined,
+        })
+      );
     }
   }
 
   /**
    * Capture a screenshot for a scenario and viewport
+   * Tiled viewports return every tile path, with the first tile as the primary path
+   * Interactions flagged with capture add a checkpoint screenshot each
    */
   async captureScreenshot(
     scenario: Scenario,
     viewport: Viewport,
-    outputDir: string
-  ): Promise<string> {
-    if (!this.browser) {
+    outputDir: string,
+    browserEngine: BrowserEngine = DEFAULT_BROWSER
+  ): Promise<CapturedScreenshot> {
+    if (this.browsers.size === 0) {
       throw new Error('Browser not initialized. Call initialize() first.');
     }
 
+    if (scenario.mode === 'element' && !scenario.target_selector) {
+      throw new Error(`Scenario "${scenario.id}" uses element mode but has no target_selector`);
+    }
+
     this.ensureDirectoryExists(outputDir);
 
     // Use default height of 800 when height is 0 (full-page screenshots)
     const viewportHeight = viewport.height > 0 ? viewport.height : 800;
 
-    const context: BrowserContext = await this.browser.newContext({
+    const browser = await this.getBrowser(browserEngine);
+    const viewportKey = getBrowserViewportKey(viewport.machine_name, browserEngine);
+
+    const http = resolveHttpSettings(scenario.url, this.config.http);
+    const environment = this.config.environment;
+
+    const context: BrowserContext = await browser.newContext({
       viewport: {
         width: viewport.width,
         height: viewportHeight,
       },
       deviceScaleFactor: viewport.device_scale_factor,
+      storageState: this.storageState ?? undefined,
+      httpCredentials: http.httpCredentials ?? undefined,
+      extraHTTPHeaders: http.extraHTTPHeaders,
+      locale: environment.locale ?? undefined,
+      timezoneId: environment.timezoneId ?? undefined,
+      colorScheme: environment.colorScheme ?? undefined,
+      reducedMotion: environment.reducedMotion ?? undefined,
     });
 
+    if (http.cookies.length > 0) {
+      await context.addCookies(http.cookies);
+    }
+
+    await this.applyDeterministicScripts(context);
+
     const page: Page = await context.newPage();
 
     try {
@@ -400,12 +833,14 @@ export class ScreenshotService {
       page.setDefaultTimeout(this.config.playwright.timeout);
       page.setDefaultNavigationTimeout(this.config.playwright.navigationTimeout);
 
+      await this.applyNetworkRules(page);
+
       // Navigate to the URL
-      // Use 'load' instead of 'networkidle' because production sites with analytics,
-      // tracking scripts, or chat widgets often have persistent connections that
-      // prevent networkidle from ever being reached
+      // Defaults to 'load' because production sites with analytics, tracking
+      // scripts, or chat widgets often have persistent connections that prevent
+      // networkidle from ever being reached; block those to use 'networkidle'
       await page.goto(scenario.url, {
-        waitUntil: 'load',
+        waitUntil: this.config.network.waitUntil,
         timeout: this.config.playwright.navigationTimeout,
       });
 
@@ -422,44 +857,29 @@ export class ScreenshotService {
       await this.stabilizeVideos(page);
 
       // Execute interactions if present (both static and interactive modes)
+      // Interactions flagged with capture produce an extra screenshot each
+      const checkpoints: CapturedCheckpoint[] = [];
       if (scenario.interactions.length > 0) {
-        await this.executeInteractions(page, scenario.interactions);
-      }
-
-      // Wait for fonts to load
-      await this.waitForFonts(page);
-
-      // Handle lazy loading for full-page screenshots
-      if (viewport.full_page) {
-        // Force load all lazy background images immediately
-        // This bypasses Intersection Observer by directly setting attributes
-        await this.forceLazyBackgroundImages(page);
-
-        // Scroll through page to trigger any remaining lazy loading
-        await this.triggerLazyLoading(page);
-
-        // Wait for all images to finish loading
-        await this.waitForAllImages(page);
-
-        // Wait for page height to stabilize
-        await this.waitForStableHeight(page);
-      } else {
-        // For non-full-page, still wait for basic stability
-        await page.waitForTimeout(300);
+        await this.executeInteractions(page, scenario.interactions, async (name) => {
+          await this.settlePage(page, viewport);
+          const captured = await this.takeScreenshot(
+            page,
+            scenario,
+            viewport,
+            getCheckpointViewportKey(viewportKey, name),
+            outputDir
+          );
+          checkpoints.push({ name, ...captured });
+        });
       }
 
-      // Generate filename and full path
-      const filename = this.generateFilename(scenario.id, viewport.machine_name);
-      const screenshotPath = path.join(outputDir, filename);
-
-      // Capture screenshot
-      await page.screenshot({
-        path: screenshotPath,
-        fullPage: viewport.full_page,
-        timeout: this.config.playwright.screenshotTimeout,
-      });
+      await this.settlePage(page, viewport);
 
-      return screenshotPath;
+      const captured = await this.takeScreenshot(page, scenario, viewport, viewportKey, outputDir);
+      return {
+        ...captured,
+        checkpoints: checkpoints.length > 0 ? checkpoints : undefined,
+      };
     } finally {
       await context.close();
     }
@@ -473,7 +893,7 @@ export class ScreenshotService {
     taskIndex: { value: number },
     completedCount: { value: number },
     results: CaptureResult[],
-    onProgress?: (current: number, total: number, scenario: Scenario, viewport: Viewport) => void
+    onProgress?: (current: number, total: number, scenario: Scenario, viewport: Viewport, browser: BrowserEngine) => void
   ): Promise<void> {
     const total = tasks.length;
 
@@ -485,55 +905,60 @@ export class ScreenshotService {
       }
 
       const task = tasks[currentIndex];
-      const key = `${task.scenario.id}__${task.viewport.machine_name}`;
+      const key = `${task.scenario.id}__${getBrowserViewportKey(task.viewport.machine_name, task.browser)}`;
 
       try {
-        const screenshotPath = await this.captureScreenshot(
+        const capture = await this.captureScreenshot(
           task.scenario,
           task.viewport,
-          task.outputDir
+          task.outputDir,
+          task.browser
         );
         results.push({
           key,
-          path: screenshotPath,
+          capture,
           index: task.index,
           scenarioId: task.scenario.id,
           viewport: task.viewport.machine_name,
+          browser: task.browser,
         });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         console.error(
-          `Failed to capture screenshot for ${task.scenario.title} @ ${task.viewport.machine_name}: ${errorMessage}`
+          `Failed to capture screenshot for ${task.scenario.title} @ ${task.viewport.machine_name} (${task.browser}): ${errorMessage}`
         );
         results.push({
           key,
-          path: '',
+          capture: null,
           index: task.index,
           error: errorMessage,
           scenarioId: task.scenario.id,
           viewport: task.viewport.machine_name,
+          browser: task.browser,
         });
       }
 
       // Update progress after task completion
       const completed = ++completedCount.value;
       if (onProgress) {
-        onProgress(completed, total, task.scenario, task.viewport);
+        onProgress(completed, total, task.scenario, task.viewport, task.browser);
       }
     }
   }
 
   /**
    * Capture screenshots for all scenario/viewport combinations using parallel workers
+   * With a shard, only that shard's share of the combinations is captured
    */
   async captureAll(
     scenarios: Scenario[],
     viewports: Viewport[],
     outputDir: string,
-    onProgress?: (current: number, total: number, scenario: Scenario, viewport: Viewport) => void
+    onProgress?: (current: number, total: number, scenario: Scenario, viewport: Viewport, browser: BrowserEngine) => void,
+    shard?: Shard
   ): Promise<CaptureAllResult> {
-    const successes = new Map<string, string>();
-    const failures: { scenarioId: string; viewport: string; error: string }[] = [];
+    const successes = new Map<string, CapturedScreenshot>();
+    const failures: CaptureAllResult['failures'] = [];
     const viewportMap = new Map<string, Viewport>();
 
     // Build viewport lookup map
@@ -542,7 +967,7 @@ export class ScreenshotService {
     }
 
     // Build task queue
-    const tasks: CaptureTask[] = [];
+    const allTasks: CaptureTask[] = [];
     let index = 0;
 
     for (const scenario of scenarios) {
@@ -553,15 +978,25 @@ export class ScreenshotService {
           continue;
         }
 
-        tasks.push({
-          scenario,
-          viewport,
-          outputDir,
-          index: index++,
-        });
+        for (const browser of resolveBrowsers(viewport, this.config)) {
+          allTasks.push({
+            scenario,
+            viewport,
+            browser,
+            outputDir,
+            index: index++,
+          });
+        }
       }
     }
 
+    // Same keys as run-tests, so a shard captures the baselines of the tests it runs
+    const tasks = selectShard(
+      allTasks,
+      shard,
+      (task) => `${task.scenario.id}|${getBrowserViewportKey(task.viewport.machine_name, task.browser)}`
+    );
+
     if (tasks.length === 0) {
       return { successes, failures };
     }
@@ -583,12 +1018,13 @@ export class ScreenshotService {
 
     // Collect results
     for (const result of captureResults) {
-      if (!result.error && result.path) {
-        successes.set(result.key, result.path);
-      } else if (result.error && result.scenarioId && result.viewport) {
+      if (!result.error && result.capture) {
+        successes.set(result.key, result.capture);
+      } else if (result.error && result.scenarioId && result.viewport && result.browser) {
         failures.push({
           scenarioId: result.scenarioId,
           viewport: result.viewport,
+          browser: result.browser,
           error: result.error,
         });
       }
@@ -603,13 +1039,14 @@ export class ScreenshotService {
   async captureWithRetry(
     scenario: Scenario,
     viewport: Viewport,
-    outputDir: string
-  ): Promise<string> {
+    outputDir: string,
+    browserEngine: BrowserEngine = DEFAULT_BROWSER
+  ): Promise<CapturedScreenshot> {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= this.config.retries.maxRetries; attempt++) {
       try {
-        return await this.captureScreenshot(scenario, viewport, outputDir);
+        return await this.captureScreenshot(scenario, viewport, outputDir, browserEngine);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error('Unknown error');
 
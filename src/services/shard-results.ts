@@ -0,0 +1,157 @@
+/**
+ * Shard Results Service
+ * Saves the results of a --shard run and combines the results of all shards
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Shard, ShardResults, TestResult, TestRunSummary } from '../types';
+import { formatShard } from '../utils/shard';
+
+export const SHARD_RESULTS_DIR = 'reports';
+
+const SHARD_FILE_PATTERN = /^shard-\d+-of-\d+\.json$/;
+
+/**
+ * Make an image path relative to the working directory
+ */
+function toRelativePath(filePath: string | undefined): string | undefined {
+  return filePath ? path.relative(process.cwd(), path.resolve(filePath)) : undefined;
+}
+
+/**
+ * Make the image paths of a result relative to the working directory, so the results
+ * still point at the images once shard artifacts are collected on another machine
+ */
+function toPortableResult(result: TestResult): TestResult {
+  return {
+    ...result,
+    screenshotPath: toRelativePath(result.screenshotPath),
+    baselinePath: toRelativePath(result.baselinePath),
+    diffPath: toRelativePath(result.diffPath),
+    annotatedDiffPath: toRelativePath(result.annotatedDiffPath),
+    tiles: result.tiles?.map((tile) => ({
+      ...tile,
+      screenshotPath: toRelativePath(tile.screenshotPath),
+      baselinePath: toRelativePath(tile.baselinePath),
+      diffPath: toRelativePath(tile.diffPath),
+      annotatedDiffPath: toRelativePath(tile.annotatedDiffPath),
+    })),
+    stability: result.stability && { ...result.stability, diffPath: toRelativePath(result.stability.diffPath) },
+  };
+}
+
+/**
+ * Results of every shard combined into a single run
+ */
+export interface MergedResults {
+  summary: TestRunSummary;
+  startedAt: Date;
+  // Shard indexes that no file was found for
+  missingShards: number[];
+}
+
+export class ShardResultsService {
+  private resultsDir: string;
+
+  constructor(resultsDir: string = path.join(process.cwd(), SHARD_RESULTS_DIR)) {
+    this.resultsDir = resultsDir;
+  }
+
+  /**
+   * Save the results of a shard and return the path of its file
+   * Image paths are stored relative to the working directory
+   */
+  save(summary: TestRunSummary, shard: Shard, startedAt: Date): string {
+    if (!fs.existsSync(this.resultsDir)) {
+      fs.mkdirSync(this.resultsDir, { recursive: true });
+    }
+
+    const results: ShardResults = {
+      version: 1,
+      shard,
+      startedAt: startedAt.toISOString(),
+      summary: { ...summary, results: summary.results.map(toPortableResult) },
+    };
+
+    const resultsPath = path.join(this.resultsDir, `shard-${shard.index}-of-${shard.total}.json`);
+    fs.writeFileSync(resultsPath, JSON.stringify(results, null, 2) + '\n');
+    return resultsPath;
+  }
+
+  /**
+   * Paths of the shard result files in the results directory
+   */
+  find(): string[] {
+    if (!fs.existsSync(this.resultsDir)) {
+      return [];
+    }
+
+    return fs
+      .readdirSync(this.resultsDir)
+      .filter((file) => SHARD_FILE_PATTERN.test(file))
+      .sort()
+      .map((file) => path.join(this.resultsDir, file));
+  }
+
+  /**
+   * Load shard result files and combine them into one run, in shard order
+   * Throws when a file can't be read or the files belong to different splits
+   */
+  merge(files: string[]): MergedResults {
+    if (files.length === 0) {
+      throw new Error('No shard result files to merge');
+    }
+
+    const shards = files.map((file) => this.load(file));
+    const total = shards[0].shard.total;
+    const seen = new Set<number>();
+
+    for (const [i, results] of shards.entries()) {
+      if (results.shard.total !== total) {
+        throw new Error(
+          `${files[i]} is shard ${formatShard(results.shard)}, but ${files[0]} is from a run split into ${total} shards`
+        );
+      }
+      if (seen.has(results.shard.index)) {
+        throw new Error(`Shard ${formatShard(results.shard)} is included more than once`);
+      }
+      seen.add(results.shard.index);
+    }
+
+    shards.sort((a, b) => a.shard.index - b.shard.index);
+    const results = shards.flatMap((shard) => shard.summary.results);
+
+    return {
+      summary: {
+        total: results.length,
+        passed: results.filter((r) => r.passed).length,
+        failed: results.filter((r) => !r.passed).length,
+        skipped: shards.reduce((sum, shard) => sum + shard.summary.skipped, 0),
+        // Shards run side by side, so the slowest one is the duration of the whole run
+        duration: Math.max(...shards.map((shard) => shard.summary.duration)),
+        results,
+      },
+      startedAt: new Date(Math.min(...shards.map((shard) => Date.parse(shard.startedAt)))),
+      missingShards: Array.from({ length: total }, (_, i) => i + 1).filter((index) => !seen.has(index)),
+    };
+  }
+
+  /**
+   * Read and check a single shard result file
+   */
+  private load(file: string): ShardResults {
+    let results: ShardResults;
+    try {
+      results = JSON.parse(fs.readFileSync(file, 'utf-8')) as ShardResults;
+    } catch (error) {
+      throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (results.version !== 1 || !results.shard || !Array.isArray(results.summary?.results)) {
+      throw new Error(`${file} is not a shard result file`);
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Stability Service
+ * Captures a page several times and compares the captures with each other to find flaky pages
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserEngine, DiffRegion, Scenario, StabilityResult, Viewport, VrtConfig } from '../types';
+import { ComparisonResult, ComparisonService, ScreenshotCompareOptions } from './comparison';
+import { CapturedScreenshot, ScreenshotService } from './screenshot';
+import { getUnstableDiffPath } from '../utils/artifact-name';
+import { readPngSize } from '../utils/png';
+import { resolveEngineOptions, resolveThresholds } from '../utils/thresholds';
+
+// Repeat captures are written below the output directory, one subdirectory per repeat
+const STABILITY_DIR = '.stability';
+
+/**
+ * A scenario/viewport/browser combination to check
+ */
+export interface StabilityTarget {
+  scenario: Scenario;
+  viewport: Viewport;
+  browser: BrowserEngine;
+}
+
+/**
+ * A single image of a capture: the final state or a checkpoint
+ */
+interface CapturedImage {
+  path: string;
+  tiles?: string[];
+  tileHeight?: number;
+}
+
+/**
+ * Summarize why a stability check flagged an image, e.g.
+ * "2 of 4 repeat captures differed (up to 1,234 pixels, 0.12%)"
+ */
+export function describeInstability(result: StabilityResult): string {
+  if (result.error) {
+    return result.error;
+  }
+
+  return (
+    `${result.unstableCaptures} of ${result.captures - 1} repeat capture(s) differed ` +
+    `(up to ${result.diffPixels.toLocaleString()} pixels, ${result.diffPercentage.toFixed(2)}%)`
+  );
+}
+
+export class StabilityService {
+  private config: VrtConfig;
+  private screenshotService: ScreenshotService;
+  private comparisonService: ComparisonService;
+
+  constructor(config: VrtConfig, screenshotService: ScreenshotService, comparisonService: ComparisonService) {
+    this.config = config;
+    this.screenshotService = screenshotService;
+    this.comparisonService = comparisonService;
+  }
+
+  /**
+   * Capture a target `captures - 1` more times and compare every repeat with the first capture
+   * Returns one result per image, keyed by checkpoint name ('' for the final state)
+   */
+  async check(target: StabilityTarget, reference: CapturedScreenshot, captures: number): Promise<Map<string, StabilityResult>> {
+    const repeats: CapturedScreenshot[] = [];
+    let captureError: string | undefined;
+
+    for (let i = 1; i < captures; i++) {
+      try {
+        repeats.push(
+          await this.screenshotService.captureWithRetry(
+            target.scenario,
+            target.viewport,
+            path.join(this.config.outputDir, STABILITY_DIR, `capture${i + 1}`),
+            target.browser
+          )
+        );
+      } catch (error) {
+        captureError = `Capture ${i + 1} of ${captures} failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        break;
+      }
+    }
+
+    const images: [string, CapturedImage][] = [
+      ['', reference],
+      ...(reference.checkpoints ?? []).map((checkpoint): [string, CapturedImage] => [checkpoint.name, checkpoint]),
+    ];
+
+    const results = new Map<string, StabilityResult>();
+    for (const [name, image] of images) {
+      const result = await this.compareRepeats(
+        target,
+        image,
+        repeats.map((repeat) => (name ? repeat.checkpoints?.find((checkpoint) => checkpoint.name === name) : repeat))
+      );
+
+      if (captureError) {
+        result.stable = false;
+        result.error = captureError;
+      }
+      results.set(name, result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Remove the repeat captures once every check is done
+   */
+  cleanup(): void {
+    fs.rmSync(path.join(this.config.outputDir, STABILITY_DIR), { recursive: true, force: true });
+  }
+
+  /**
+   * Compare the repeats of one image with its first capture and keep the largest difference
+   */
+  private async compareRepeats(
+    target: StabilityTarget,
+    image: CapturedImage,
+    repeats: (CapturedImage | undefined)[]
+  ): Promise<StabilityResult> {
+    const result: StabilityResult = {
+      captures: repeats.length + 1,
+      unstableCaptures: 0,
+      stable: true,
+      diffPixels: 0,
+      diffPercentage: 0,
+    };
+
+    const options: ScreenshotCompareOptions = {
+      ignoreRegions: target.scenario.ignore_regions,
+      thresholds: resolveThresholds(this.config.comparison, target.scenario, target.viewport.machine_name),
+      engineOptions: resolveEngineOptions(this.config.comparison, target.scenario.id, target.viewport.machine_name),
+      deviceScaleFactor: target.viewport.device_scale_factor,
+      tileHeight: image.tileHeight,
+    };
+
+    for (const [index, repeat] of repeats.entries()) {
+      // Captures are numbered from 1, and the first one is the reference
+      const captureNumber = index + 2;
+
+      if (!repeat) {
+        result.unstableCaptures++;
+        result.error ??= `Capture ${captureNumber} didn't reach this checkpoint`;
+        continue;
+      }
+
+      const referencePaths = image.tiles ?? [image.path];
+      const repeatPaths = repeat.tiles ?? [repeat.path];
+      if (referencePaths.length !== repeatPaths.length) {
+        result.unstableCaptures++;
+        result.error ??= `Page height changed between captures (${referencePaths.length} vs ${repeatPaths.length} tiles)`;
+        continue;
+      }
+
+      const comparison = await this.compareImages(referencePaths, repeatPaths, captureNumber, options);
+      if (comparison.passed) {
+        continue;
+      }
+
+      result.unstableCaptures++;
+      if (comparison.error) {
+        result.error ??= `Capture ${captureNumber}: ${comparison.error}`;
+      }
+      if (comparison.diffPixels > result.diffPixels) {
+        result.diffPixels = comparison.diffPixels;
+        result.diffPercentage = comparison.diffPercentage;
+        result.regions = comparison.regions;
+        result.diffPath = comparison.diffPath;
+      }
+    }
+
+    result.stable = result.unstableCaptures === 0;
+    return result;
+  }
+
+  /**
+   * Compare a repeat with the first capture, tile by tile for tiled captures
+   * Tile regions are moved to page coordinates like in tiled comparisons
+   */
+  private async compareImages(
+    referencePaths: string[],
+    repeatPaths: string[],
+    captureNumber: number,
+    options: ScreenshotCompareOptions
+  ): Promise<Pick<ComparisonResult, 'passed' | 'diffPixels' | 'diffPercentage' | 'error'> & {
+    regions?: DiffRegion[];
+    diffPath?: string;
+  }> {
+    const tiled = referencePaths.length > 1 || options.tileHeight !== undefined;
+    const regions: DiffRegion[] = [];
+    let passed = true;
+    let diffPixels = 0;
+    let diffPercentage = 0;
+    let diffPath: string | undefined;
+    let error: string | undefined;
+
+    for (const [tileIndex, referencePath] of referencePaths.entries()) {
+      const comparison = await this.comparisonService.compareCaptures(
+        referencePath,
+        repeatPaths[tileIndex],
+        getUnstableDiffPath(path.join(this.config.diffDir, path.basename(referencePath)), captureNumber),
+        options,
+        tileIndex
+      );
+
+      if (comparison.passed) {
+        continue;
+      }
+
+      passed = false;
+      error ??= comparison.error;
+      diffPixels += Math.max(comparison.diffPixels, 0);
+      diffPercentage += comparison.diffPixels >= 0 ? comparison.diffPercentage : 0;
+      diffPath ??= comparison.annotatedDiffPath ?? comparison.diffPath;
+
+      const tileImageHeight = tiled ? readPngSize(referencePath).height : 0;
+      for (const region of comparison.diffRegions ?? []) {
+        regions.push(tiled ? { ...region, y: region.y + tileIndex * tileImageHeight, tile: tileIndex } : region);
+      }
+    }
+
+    return {
+      passed,
+      diffPixels,
+      // All tiles share the same dimensions, so the average is the page-wide percentage
+      diffPercentage: diffPercentage / referencePaths.length,
+      error,
+      regions: regions.length > 0 ? regions : undefined,
+      diffPath,
+    };
+  }
+}
@@ -18,6 +18,8 @@ export interface Meta {
   notes: string[];
 }
 
+export type BrowserEngine = 'chromium' | 'firefox' | 'webkit';
+
 export interface Viewport {
   machine_name: string;
   label: string;
@@ -25,18 +27,44 @@ export interface Viewport {
   height: number;
   device_scale_factor: number;
   full_page: boolean;
+  browser?: BrowserEngine | null;
 }
 
-export type InteractionType = 'click' | 'type' | 'mouseover' | 'wait';
+export type InteractionType =
+  | 'click'
+  | 'type'
+  | 'mouseover'
+  | 'wait'
+  | 'scroll_to'
+  | 'press_key'
+  | 'select_option'
+  | 'focus'
+  | 'check'
+  | 'wait_for_selector'
+  | 'wait_for_hidden'
+  | 'set_viewport'
+  | 'evaluate';
 
 export interface Interaction {
   type: InteractionType;
   selector: string;
   value: string | null;
   wait_ms: number | null;
+  /** Take a screenshot after this interaction; a string names the checkpoint */
+  capture?: boolean | string | null;
 }
 
-export type ScenarioMode = 'static' | 'interactive';
+export type ScenarioMode = 'static' | 'interactive' | 'element';
+
+/**
+ * Rectangle in CSS pixels, relative to the top-left corner of the page
+ */
+export interface IgnoreRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 export interface Scenario {
   id: string;
@@ -50,6 +78,26 @@ export interface Scenario {
   source_reference: string;
   content_type: string;
   interactions: Interaction[];
+  mask_selectors?: string[];
+  ignore_regions?: IgnoreRegion[];
+  target_selector?: string | null;
+  dimension_policy?: DimensionPolicy | null;
+  threshold?: number | null;
+  max_diff_pixels?: number | null;
+  max_diff_pixel_ratio?: number | null;
+}
+
+/**
+ * Local overlay merged into API scenarios whose ID matches the override key
+ * Array fields are appended to the API values, other fields replace them
+ */
+export interface ScenarioOverride {
+  mask_selectors?: string[];
+  ignore_regions?: IgnoreRegion[];
+  dimension_policy?: DimensionPolicy;
+  threshold?: number;
+  max_diff_pixels?: number;
+  max_diff_pixel_ratio?: number;
 }
 
 export interface ApiPayload {
@@ -69,18 +117,146 @@ export interface ApiError {
 // Configuration Types
 // ============================================================================
 
-export interface ComparisonConfig {
+/**
+ * What happens when a capture and its baseline have different dimensions
+ * - fail: the test fails
+ * - warn: the test passes with a dimension-mismatch warning
+ * - pad-and-compare: the smaller image is padded and the overlapping area is diffed
+ * - tolerance: like pad-and-compare within dimensionTolerance pixels, fail beyond it
+ */
+export type DimensionPolicy = 'fail' | 'warn' | 'pad-and-compare' | 'tolerance';
+
+export interface ComparisonThresholds {
   threshold: number;
   maxDiffPixels: number;
   maxDiffPixelRatio: number;
 }
 
+/**
+ * How the diff image is drawn
+ * - overlay: changed pixels painted over the current capture
+ * - mask: only the changed pixels, on a transparent background
+ */
+export type DiffStyle = 'overlay' | 'mask';
+
+export interface EngineOptions {
+  // Leave anti-aliased pixels out of the diff count (font rendering noise)
+  antialiasing: boolean;
+  // Hex color of changed pixels in the diff image (e.g. "#ff0000")
+  diffColor: string;
+  diffStyle: DiffStyle;
+  // Regions left out of every comparison, in page CSS pixels
+  ignoreRegions: IgnoreRegion[];
+}
+
+/**
+ * Thresholds for scenarios and viewports matching the given glob patterns
+ * An entry without a pattern matches every scenario or viewport
+ */
+export interface ComparisonOverride extends Partial<ComparisonThresholds> {
+  scenario?: string;
+  viewport?: string;
+  engineOptions?: Partial<EngineOptions>;
+}
+
+export type ComparisonEngineName = 'odiff' | 'pixelmatch' | 'ssim';
+
+export interface ComparisonConfig extends ComparisonThresholds {
+  engine: ComparisonEngineName;
+  engineOptions: EngineOptions;
+  overrides: ComparisonOverride[];
+  dimensionPolicy: DimensionPolicy;
+  // Largest width or height difference in image pixels accepted by the tolerance policy
+  dimensionTolerance: number;
+}
+
+export type CaptureStrategy = 'full-page' | 'tiled';
+
+export interface CaptureConfig {
+  strategy: CaptureStrategy;
+  tileHeight: number | null;
+}
+
 export interface PlaywrightConfig {
   headless: boolean;
   timeout: number;
   navigationTimeout: number;
   screenshotTimeout: number;
   workers: number;
+  browsers: BrowserEngine[];
+}
+
+export type AuthStrategy = 'none' | 'form' | 'one-time-login';
+
+export interface AuthConfig {
+  strategy: AuthStrategy;
+  loginUrl: string | null;
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  successSelector: string | null;
+  usernameEnv: string;
+  passwordEnv: string;
+  oneTimeLoginUrlEnv: string;
+  storageStatePath: string;
+}
+
+export interface HttpCredentials {
+  username: string;
+  password: string;
+}
+
+export interface HttpCookie {
+  name: string;
+  value: string;
+  // Defaults to the host of the captured URL
+  domain?: string;
+  path?: string;
+  httpOnly?: boolean;
+  secure?: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+export interface SiteHttpConfig {
+  httpCredentials?: HttpCredentials | null;
+  extraHTTPHeaders?: Record<string, string>;
+  cookies?: HttpCookie[];
+}
+
+export interface HttpConfig extends SiteHttpConfig {
+  // Settings for target sites, keyed by hostname or glob pattern (e.g. "*.pantheonsite.io")
+  domains: Record<string, SiteHttpConfig>;
+}
+
+export type NavigationWaitUntil = 'load' | 'domcontentloaded' | 'networkidle';
+
+export interface NetworkFixture {
+  // Playwright URL glob (e.g. "**/api/weather*")
+  url: string;
+  // Local file served as the response body
+  path: string;
+  status?: number;
+  contentType?: string | null;
+}
+
+export interface NetworkConfig {
+  // Playwright URL globs for requests to abort (e.g. "**/*google-analytics.com/**")
+  block: string[];
+  fixtures: NetworkFixture[];
+  waitUntil: NavigationWaitUntil;
+}
+
+export interface EnvironmentConfig {
+  // ISO date-time that Date/Date.now() are frozen at (timers keep running unless pauseTimers is set)
+  clock: string | null;
+  // Also stop setTimeout/setInterval/requestAnimationFrame at the clock time
+  pauseTimers: boolean;
+  // Seed for a deterministic Math.random
+  randomSeed: number | null;
+  locale: string | null;
+  timezoneId: string | null;
+  colorScheme: 'light' | 'dark' | 'no-preference' | null;
+  reducedMotion: 'reduce' | 'no-preference' | null;
 }
 
 export interface RetryConfig {
@@ -98,8 +274,14 @@ export interface VrtConfig {
   baselineDir: string;
   diffDir: string;
   comparison: ComparisonConfig;
+  capture: CaptureConfig;
   playwright: PlaywrightConfig;
   retries: RetryConfig;
+  auth: AuthConfig;
+  http: HttpConfig;
+  network: NetworkConfig;
+  environment: EnvironmentConfig;
+  scenarioOverrides: Record<string, ScenarioOverride>;
 }
 
 // ============================================================================
@@ -111,12 +293,62 @@ export interface FilterOptions {
   viewports?: string[];
 }
 
+/**
+ * Bounding box of a cluster of changed pixels, in image pixels
+ */
+export interface DiffRegion {
+  // Number drawn next to the box on the annotated diff image
+  index: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  pixels: number;
+  // Tile the region was found in; coordinates are then page-wide
+  tile?: number;
+}
+
+/**
+ * Outcome of capturing the same image several times and comparing the captures with each other
+ */
+export interface StabilityResult {
+  // Number of captures, including the one the others were compared with
+  captures: number;
+  // Repeat captures that differed from the first one
+  unstableCaptures: number;
+  stable: boolean;
+  // Largest difference between the first capture and any repeat
+  diffPixels: number;
+  diffPercentage: number;
+  // Changed regions and diff image of that repeat
+  regions?: DiffRegion[];
+  diffPath?: string;
+  // A repeat capture failed or came out at a different size
+  error?: string;
+}
+
+export interface TileResult {
+  tileIndex: number;
+  passed: boolean;
+  diffPixels?: number;
+  diffPercentage?: number;
+  error?: string;
+  warning?: string;
+  screenshotPath?: string;
+  baselinePath?: string;
+  diffPath?: string;
+  annotatedDiffPath?: string;
+  diffRegions?: DiffRegion[];
+}
+
 export interface TestResult {
   scenarioId: string;
   scenarioTitle: string;
   scenarioUrl: string;
   baselineUrl?: string;
   viewport: string;
+  browser?: BrowserEngine;
+  checkpoint?: string;
   passed: boolean;
   diffPixels?: number;
   diffPercentage?: number;
@@ -125,10 +357,40 @@ export interface TestResult {
   screenshotPath?: string;
   baselinePath?: string;
   diffPath?: string;
+  annotatedDiffPath?: string;
+  diffRegions?: DiffRegion[];
+  // Differences between how the baseline and the current image were captured
+  baselineWarnings?: string[];
+  // How the current image was captured; set once a capture was compared
+  capture?: CaptureInfo;
+  // Time spent capturing and comparing, in milliseconds; checkpoints share their task's time
+  duration?: number;
+  // Set when run with --stability-check
+  stability?: StabilityResult;
+  tileCount?: number;
+  tiles?: TileResult[];
+}
+
+export interface ReportTileResult {
+  index: number;
+  status: 'passed' | 'failed';
+  baseline?: string;
+  current?: string;
+  diff?: string;
+  annotatedDiff?: string;
+  diffRegions?: DiffRegion[];
+  diffPixels?: number;
+  diffPercentage?: number;
+  error?: string;
 }
 
 export interface ReportTestResult {
   name: string;
+  // Identify the test when it is accepted from the report
+  scenarioId: string;
+  viewport: string;
+  browser?: BrowserEngine;
+  checkpoint?: string;
   url: string;
   baselineUrl?: string;
   status: 'passed' | 'failed';
@@ -138,6 +400,11 @@ export interface ReportTestResult {
   diffPixels?: number;
   diffPercentage?: number;
   warning?: string;
+  annotatedDiff?: string;
+  diffRegions?: DiffRegion[];
+  tiles?: ReportTileResult[];
+  // Why the stability check flagged the page as flaky
+  flaky?: string;
 }
 
 export interface TestRunSummary {
@@ -149,6 +416,172 @@ export interface TestRunSummary {
   results: TestResult[];
 }
 
+// ============================================================================
+// Baseline Manifest Types
+// ============================================================================
+
+/**
+ * Where and with which browser and viewport an image was captured
+ */
+export interface CaptureInfo {
+  scenarioId: string;
+  viewport: string;
+  browser: BrowserEngine;
+  checkpoint?: string;
+  url: string;
+  viewportWidth: number;
+  viewportHeight: number;
+  deviceScaleFactor: number;
+  browserVersion: string;
+  // meta.generated_at of the API payload the scenario came from
+  apiGeneratedAt: string;
+}
+
+/**
+ * How a baseline image was captured, keyed by filename in baselines/manifest.json
+ */
+export interface BaselineManifestEntry extends CaptureInfo {
+  capturedAt: string;
+  // SHA-256 of the PNG file
+  sha256: string;
+  // Commit checked out in the working directory, null outside a git repository
+  gitSha: string | null;
+  // Number of tiles the baseline was saved with; set on each tile of a tiled baseline
+  tileCount?: number;
+}
+
+export interface BaselineManifest {
+  version: 1;
+  entries: Record<string, BaselineManifestEntry>;
+}
+
+// ============================================================================
+// Run History Types
+// ============================================================================
+
+/**
+ * Outcome of one scenario/viewport/browser/checkpoint in a recorded run
+ */
+export interface HistoryTestEntry {
+  scenarioId: string;
+  viewport: string;
+  browser?: BrowserEngine;
+  checkpoint?: string;
+  passed: boolean;
+  diffPixels?: number;
+  diffPercentage?: number;
+  duration?: number;
+  error?: string;
+  // Set when the run used --stability-check
+  flaky?: boolean;
+}
+
+/**
+ * A test run stored in .vrt/history, one JSON file per run
+ */
+export interface HistoryRun {
+  version: 1;
+  // Filename stem, derived from the start time
+  id: string;
+  startedAt: string;
+  duration: number;
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  // Commit checked out in the working directory, null outside a git repository
+  gitSha: string | null;
+  // Run options that change what was tested
+  filters: {
+    scenario?: string[];
+    viewport?: string[];
+    failedOnly: boolean;
+  };
+  tests: HistoryTestEntry[];
+}
+
+// ============================================================================
+// Export Types
+// ============================================================================
+
+export type ReporterFormat = 'junit' | 'json' | 'markdown';
+
+/**
+ * One test in the JSON export; absent values are null so every key is always present
+ */
+export interface JsonReportTest {
+  name: string;
+  scenarioId: string;
+  scenarioTitle: string;
+  scenarioUrl: string;
+  baselineUrl: string | null;
+  viewport: string;
+  browser: BrowserEngine | null;
+  checkpoint: string | null;
+  status: 'passed' | 'failed';
+  flaky: boolean | null;
+  diffPixels: number | null;
+  diffPercentage: number | null;
+  duration: number | null;
+  error: string | null;
+  warning: string | null;
+  baselineWarnings: string[];
+  screenshotPath: string | null;
+  baselinePath: string | null;
+  diffPath: string | null;
+  diffRegions: DiffRegion[];
+  tiles: {
+    index: number;
+    status: 'passed' | 'failed';
+    diffPixels: number | null;
+    diffPercentage: number | null;
+    error: string | null;
+  }[];
+}
+
+/**
+ * The JSON export of a test run (written by --reporter json)
+ * schemaVersion changes whenever a field is removed or changes meaning
+ */
+export interface JsonReport {
+  schemaVersion: 1;
+  generatedAt: string;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    // null when the run didn't use --stability-check
+    flaky: number | null;
+    // Milliseconds
+    duration: number;
+  };
+  tests: JsonReportTest[];
+}
+
+// ============================================================================
+// Shard Types
+// ============================================================================
+
+/**
+ * One of several runs that split the tests between them (--shard index/total)
+ * index is 1-based
+ */
+export interface Shard {
+  index: number;
+  total: number;
+}
+
+/**
+ * Results of a --shard run, written for merge-results
+ */
+export interface ShardResults {
+  version: 1;
+  shard: Shard;
+  startedAt: string;
+  summary: TestRunSummary;
+}
+
 // ============================================================================
 // Connection Test Types
 // ============================================================================
@@ -0,0 +1,62 @@
+/**
+ * Artifact Naming Utilities Tests
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import {
+  getAnnotatedDiffPath,
+  getArtifactFilename,
+  getMigratedFilename,
+  getTileFilename,
+  getUnstableDiffPath,
+} from './artifact-name';
+
+describe('getArtifactFilename', () => {
+  it('replaces unsafe characters in the scenario ID and viewport key', () => {
+    assert.equal(getArtifactFilename('node:123', 'desktop'), 'node_123__desktop.png');
+    assert.equal(getArtifactFilename('blog/post 1', 'mobile hd'), 'blog_post_1__mobile_hd.png');
+  });
+
+  it('keeps browser and checkpoint suffixes', () => {
+    assert.equal(getArtifactFilename('home', 'desktop__firefox'), 'home__desktop__firefox.png');
+  });
+});
+
+describe('getTileFilename', () => {
+  it('appends the tile index', () => {
+    assert.equal(getTileFilename('node:123', 'desktop', 2), 'node_123__desktop__tile2.png');
+  });
+});
+
+describe('diff paths', () => {
+  it('derives the annotated and unstable diff paths', () => {
+    assert.equal(getAnnotatedDiffPath('diffs/home__desktop.png'), 'diffs/home__desktop__annotated.png');
+    assert.equal(getUnstableDiffPath('diffs/home__desktop.png', 2), 'diffs/home__desktop__unstable2.png');
+  });
+});
+
+describe('getMigratedFilename', () => {
+  it('leaves names that are already valid unchanged', () => {
+    assert.equal(getMigratedFilename('node_123__desktop.png'), 'node_123__desktop.png');
+    assert.equal(getMigratedFilename('home__desktop__tile0.png'), 'home__desktop__tile0.png');
+  });
+
+  it('sanitizes raw scenario IDs, including ones that created subdirectories', () => {
+    assert.equal(getMigratedFilename('node:123__desktop.png'), 'node_123__desktop.png');
+    assert.equal(getMigratedFilename('blog/post-1__mobile__tile0.png'), 'blog_post-1__mobile__tile0.png');
+  });
+
+  it('gives the same name as a fresh capture of the same scenario', () => {
+    const scenarioId = 'blog/2024:post';
+
+    assert.equal(
+      getMigratedFilename(`${scenarioId}__desktop.png`),
+      getArtifactFilename(scenarioId, 'desktop')
+    );
+    assert.equal(
+      getMigratedFilename(`${scenarioId}__desktop__tile3.png`),
+      getTileFilename(scenarioId, 'desktop', 3)
+    );
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Artifact Naming Utilities
+ * Single source of truth for the filenames of screenshots, baselines and diffs
+ */
+
+// Characters allowed in a filename part; everything else becomes an underscore
+const UNSAFE_CHARACTERS = /[^a-zA-Z0-9_-]/g;
+
+/**
+ * Replaces characters that are unsafe in filenames (`:`, `/`, spaces, ...) with underscores.
+ *
+ * @param value - Scenario ID or viewport key
+ * @returns The value with only letters, digits, `_` and `-`
+ *
+ * @example
+ * sanitizeNamePart("node:123")
+ * // Returns: "node_123"
+ */
+export function sanitizeNamePart(value: string): string {
+  return value.replace(UNSAFE_CHARACTERS, '_');
+}
+
+/**
+ * Builds the filename shared by a capture, its baseline and its diff.
+ * The viewport key may already carry a browser or checkpoint suffix.
+ *
+ * @param scenarioId - Scenario ID from the API
+ * @param viewportKey - Viewport key used for artifacts (e.g. "desktop__firefox")
+ * @returns PNG filename
+ *
+ * @example
+ * getArtifactFilename("node:123", "desktop")
+ * // Returns: "node_123__desktop.png"
+ */
+export function getArtifactFilename(scenarioId: string, viewportKey: string): string {
+  return `${sanitizeNamePart(scenarioId)}__${sanitizeNamePart(viewportKey)}.png`;
+}
+
+/**
+ * Builds the filename of a single tile of a tiled capture.
+ *
+ * @example
+ * getTileFilename("node:123", "desktop", 2)
+ * // Returns: "node_123__desktop__tile2.png"
+ */
+export function getTileFilename(scenarioId: string, viewportKey: string, tileIndex: number): string {
+  return getArtifactFilename(scenarioId, viewportKey).replace(/\.png$/, `__tile${tileIndex}.png`);
+}
+
+/**
+ * Builds the path of the annotated copy of a diff image.
+ *
+ * @example
+ * getAnnotatedDiffPath("diffs/homepage__desktop.png")
+ * // Returns: "diffs/homepage__desktop__annotated.png"
+ */
+export function getAnnotatedDiffPath(diffPath: string): string {
+  return diffPath.replace(/\.png$/, '__annotated.png');
+}
+
+/**
+ * Builds the path of the diff between the first capture of a stability check and a
+ * later one, numbered from 1 like the captures.
+ *
+ * @example
+ * getUnstableDiffPath("diffs/homepage__desktop.png", 2)
+ * // Returns: "diffs/homepage__desktop__unstable2.png"
+ */
+export function getUnstableDiffPath(diffPath: string, captureNumber: number): string {
+  return diffPath.replace(/\.png$/, `__unstable${captureNumber}.png`);
+}
+
+/**
+ * Converts a baseline path relative to the baseline directory into the name it
+ * gets under the current naming rules. Older versions wrote raw scenario IDs,
+ * so an ID containing `/` could even end up in a subdirectory.
+ *
+ * @param relativePath - Path relative to the baseline directory, with `/` separators
+ * @returns The sanitized filename, or the input when it is already valid
+ *
+ * @example
+ * getMigratedFilename("node:123__desktop.png")
+ * // Returns: "node_123__desktop.png"
+ *
+ * @example
+ * getMigratedFilename("blog/post-1__mobile__tile0.png")
+ * // Returns: "blog_post-1__mobile__tile0.png"
+ */
+export function getMigratedFilename(relativePath: string): string {
+  // Separators and suffixes (`__`, `__tileN`) only use safe characters, so
+  // sanitizing the whole name gives the same result as sanitizing each part
+  return `${sanitizeNamePart(relativePath.replace(/\.png$/, ''))}.png`;
+}
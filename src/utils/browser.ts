@@ -0,0 +1,44 @@
+/**
+ * Browser Engine Utilities
+ * Functions for resolving which engines capture a viewport and how their artifacts are keyed
+ */
+
+import { BrowserEngine, Viewport, VrtConfig } from '../types';
+
+export const BROWSER_ENGINES: BrowserEngine[] = ['chromium', 'firefox', 'webkit'];
+
+export const DEFAULT_BROWSER: BrowserEngine = 'chromium';
+
+/**
+ * Resolves the browser engines a viewport is captured with.
+ * A viewport that names an engine is captured with that engine only;
+ * otherwise every engine from `playwright.browsers` is used.
+ *
+ * @param viewport - Viewport from the API payload
+ * @param config - Loaded configuration
+ * @returns Engines to capture the viewport with
+ */
+export function resolveBrowsers(viewport: Viewport, config: VrtConfig): BrowserEngine[] {
+  if (viewport.browser) {
+    return [viewport.browser];
+  }
+
+  return config.playwright.browsers;
+}
+
+/**
+ * Builds the viewport key used in artifact filenames for an engine.
+ * Chromium keeps the bare viewport key so baselines captured before
+ * multi-browser support remain valid.
+ *
+ * @example
+ * getBrowserViewportKey("desktop", "chromium")
+ * // Returns: "desktop"
+ *
+ * @example
+ * getBrowserViewportKey("desktop", "webkit")
+ * // Returns: "desktop__webkit"
+ */
+export function getBrowserViewportKey(viewportKey: string, browser: BrowserEngine): string {
+  return browser === DEFAULT_BROWSER ? viewportKey : `${viewportKey}__${browser}`;
+}
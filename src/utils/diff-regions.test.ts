@@ -0,0 +1,108 @@
+/**
+ * Diff Region Utilities Tests
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { PNG } from 'pngjs';
+import { computeDiffMask, findDiffRegions, MAX_DIFF_REGIONS } from './diff-regions';
+
+/**
+ * Build a mask with the given rectangles of changed pixels
+ */
+function createMask(width: number, height: number, rects: [number, number, number, number][]): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (const [x, y, w, h] of rects) {
+    for (let py = y; py < y + h; py++) {
+      mask.fill(1, py * width + x, py * width + x + w);
+    }
+  }
+  return mask;
+}
+
+/**
+ * Build an opaque image filled with one gray level
+ */
+function createImage(width: number, height: number, gray: number): PNG {
+  const image = new PNG({ width, height });
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data[i] = gray;
+    image.data[i + 1] = gray;
+    image.data[i + 2] = gray;
+    image.data[i + 3] = 255;
+  }
+  return image;
+}
+
+describe('findDiffRegions', () => {
+  it('returns no regions for an unchanged image', () => {
+    assert.deepEqual(findDiffRegions(new Uint8Array(100 * 100), 100, 100), []);
+  });
+
+  it('reports the exact bounding box and pixel count of a change', () => {
+    const regions = findDiffRegions(createMask(100, 100, [[10, 20, 5, 3]]), 100, 100);
+
+    assert.deepEqual(regions, [{ index: 1, x: 10, y: 20, width: 5, height: 3, pixels: 15 }]);
+  });
+
+  it('groups nearby changes and keeps distant ones apart', () => {
+    // The first two are in neighbouring cells, the third is far away
+    const mask = createMask(200, 200, [[0, 0, 2, 2], [20, 0, 2, 2], [150, 150, 2, 2]]);
+
+    const regions = findDiffRegions(mask, 200, 200);
+
+    assert.equal(regions.length, 2);
+    assert.deepEqual(regions[0], { index: 1, x: 0, y: 0, width: 22, height: 2, pixels: 8 });
+    assert.deepEqual(regions[1], { index: 2, x: 150, y: 150, width: 2, height: 2, pixels: 4 });
+  });
+
+  it('groups diagonally touching cells', () => {
+    const mask = createMask(64, 64, [[15, 15, 1, 1], [16, 16, 1, 1]]);
+
+    assert.equal(findDiffRegions(mask, 64, 64).length, 1);
+  });
+
+  it('numbers regions in reading order', () => {
+    const mask = createMask(200, 200, [[150, 10, 1, 1], [10, 10, 1, 1], [10, 150, 1, 1]]);
+
+    const regions = findDiffRegions(mask, 200, 200);
+
+    assert.deepEqual(
+      regions.map((region) => [region.index, region.x, region.y]),
+      [[1, 10, 10], [2, 150, 10], [3, 10, 150]]
+    );
+  });
+
+  it('keeps only the largest regions', () => {
+    // One isolated pixel every 40px, plus one big change
+    const rects: [number, number, number, number][] = [];
+    for (let y = 0; y < 400; y += 40) {
+      for (let x = 0; x < 400; x += 40) {
+        rects.push([x, y, 1, 1]);
+      }
+    }
+    rects.push([381, 381, 10, 10]);
+
+    const regions = findDiffRegions(createMask(400, 400, rects), 400, 400);
+
+    assert.equal(regions.length, MAX_DIFF_REGIONS);
+    assert.ok(regions.some((region) => region.pixels >= 100));
+  });
+});
+
+describe('computeDiffMask', () => {
+  it('marks changed pixels and leaves ignored regions out', () => {
+    const baseline = createImage(20, 20, 255);
+    const current = createImage(20, 20, 255);
+    for (const [x, y] of [[2, 2], [15, 15]]) {
+      const i = (y * 20 + x) * 4;
+      current.data[i] = current.data[i + 1] = current.data[i + 2] = 0;
+    }
+
+    const mask = computeDiffMask(baseline, current, 0.1, [{ x: 10, y: 10, width: 10, height: 10 }]);
+
+    assert.equal(mask[2 * 20 + 2], 1);
+    assert.equal(mask[15 * 20 + 15], 0);
+    assert.equal(mask.reduce((sum, value) => sum + value, 0), 1);
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Diff Region Utilities
+ * Groups changed pixels into regions and draws numbered boxes around them
+ */
+
+import * as fs from 'fs';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import { DiffRegion, IgnoreRegion } from '../types';
+import { copyRegions } from './png';
+
+// Changed pixels are bucketed into square cells; touching cells form one region,
+// so changes closer than about one cell apart (e.g. the letters of a word) are grouped
+const CELL_SIZE = 16;
+
+// Regions beyond this count are dropped, smallest first
+export const MAX_DIFF_REGIONS = 50;
+
+const BOX_COLOR = [0, 120, 255];
+const BOX_THICKNESS = 3;
+const LABEL_SCALE = 3;
+
+// 3x5 bitmaps for the digits 0-9, one string per row
+const DIGITS = [
+  ['111', '101', '101', '101', '111'],
+  ['010', '110', '010', '010', '111'],
+  ['111', '001', '111', '100', '111'],
+  ['111', '001', '111', '001', '111'],
+  ['101', '101', '111', '001', '001'],
+  ['111', '100', '111', '001', '111'],
+  ['111', '100', '111', '101', '111'],
+  ['111', '001', '001', '001', '001'],
+  ['111', '101', '111', '101', '111'],
+  ['111', '101', '111', '001', '111'],
+];
+
+/**
+ * Builds a mask of the pixels that differ between two images of the same size.
+ * Ignored regions are copied from the baseline first so they never count.
+ *
+ * @param baseline - Decoded baseline image
+ * @param current - Decoded current image (modified in place inside ignored regions)
+ * @param threshold - Color difference threshold (0-1)
+ * @param ignoreRegions - Regions in image pixels
+ * @param antialiasing - Leave anti-aliased pixels out of the mask
+ * @returns One byte per pixel, 1 where the pixel changed
+ */
+export function computeDiffMask(
+  baseline: PNG,
+  current: PNG,
+  threshold: number,
+  ignoreRegions: IgnoreRegion[],
+  antialiasing = true
+): Uint8Array {
+  const { width, height } = baseline;
+  copyRegions(baseline, current, ignoreRegions);
+
+  // With diffMask only changed pixels are drawn; everything else stays transparent
+  const output = new PNG({ width, height });
+  pixelmatch(baseline.data, current.data, output.data, width, height, {
+    threshold,
+    includeAA: !antialiasing,
+    diffMask: true,
+  });
+
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = output.data[i * 4 + 3] > 0 ? 1 : 0;
+  }
+
+  return mask;
+}
+
+/**
+ * Groups the changed pixels of a mask into regions with bounding boxes.
+ * Only the MAX_DIFF_REGIONS largest regions are kept. Regions are numbered
+ * from 1 in reading order (top to bottom, then left to right).
+ *
+ * @param mask - One byte per pixel, non-zero where the pixel changed
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @returns Regions with their bounding boxes and changed pixel counts
+ */
+export function findDiffRegions(mask: Uint8Array, width: number, height: number): DiffRegion[] {
+  const cols = Math.ceil(width / CELL_SIZE);
+  const rows = Math.ceil(height / CELL_SIZE);
+  const cellCount = cols * rows;
+
+  const pixels = new Int32Array(cellCount);
+  const minX = new Int32Array(cellCount).fill(width);
+  const minY = new Int32Array(cellCount).fill(height);
+  const maxX = new Int32Array(cellCount).fill(-1);
+  const maxY = new Int32Array(cellCount).fill(-1);
+
+  for (let y = 0; y < height; y++) {
+    const rowOffset = y * width;
+    const cellRow = Math.floor(y / CELL_SIZE) * cols;
+    for (let x = 0; x < width; x++) {
+      if (!mask[rowOffset + x]) continue;
+
+      const cell = cellRow + Math.floor(x / CELL_SIZE);
+      pixels[cell]++;
+      if (x < minX[cell]) minX[cell] = x;
+      if (x > maxX[cell]) maxX[cell] = x;
+      if (y < minY[cell]) minY[cell] = y;
+      if (y > maxY[cell]) maxY[cell] = y;
+    }
+  }
+
+  // Flood fill over changed cells, 8-connected
+  const visited = new Uint8Array(cellCount);
+  const stack: number[] = [];
+  const regions: Omit<DiffRegion, 'index'>[] = [];
+
+  for (let start = 0; start < cellCount; start++) {
+    if (pixels[start] === 0 || visited[start]) continue;
+
+    const region = { x1: width, y1: height, x2: -1, y2: -1, pixels: 0 };
+    visited[start] = 1;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const cell = stack.pop() as number;
+      region.pixels += pixels[cell];
+      region.x1 = Math.min(region.x1, minX[cell]);
+      region.y1 = Math.min(region.y1, minY[cell]);
+      region.x2 = Math.max(region.x2, maxX[cell]);
+      region.y2 = Math.max(region.y2, maxY[cell]);
+
+      const col = cell % cols;
+      const row = Math.floor(cell / cols);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || r < 0 || c >= cols || r >= rows) continue;
+
+          const neighbour = r * cols + c;
+          if (pixels[neighbour] > 0 && !visited[neighbour]) {
+            visited[neighbour] = 1;
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+
+    regions.push({
+      x: region.x1,
+      y: region.y1,
+      width: region.x2 - region.x1 + 1,
+      height: region.y2 - region.y1 + 1,
+      pixels: region.pixels,
+    });
+  }
+
+  return regions
+    .sort((a, b) => b.pixels - a.pixels)
+    .slice(0, MAX_DIFF_REGIONS)
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .map((region, i) => ({ index: i + 1, ...region }));
+}
+
+/**
+ * Writes a copy of a diff image with a numbered box around each region.
+ *
+ * @param diffPath - Diff image to annotate
+ * @param regions - Regions found in the diff, in the image's pixel coordinates
+ * @param outputPath - Where to write the annotated image
+ */
+export function annotateDiffRegions(diffPath: string, regions: DiffRegion[], outputPath: string): void {
+  const image = PNG.sync.read(fs.readFileSync(diffPath));
+
+  for (const region of regions) {
+    const x1 = Math.max(region.x - BOX_THICKNESS - 1, 0);
+    const y1 = Math.max(region.y - BOX_THICKNESS - 1, 0);
+    const x2 = Math.min(region.x + region.width + BOX_THICKNESS, image.width - 1);
+    const y2 = Math.min(region.y + region.height + BOX_THICKNESS, image.height - 1);
+
+    fillRect(image, x1, y1, x2 - x1 + 1, BOX_THICKNESS, BOX_COLOR);
+    fillRect(image, x1, y2 - BOX_THICKNESS + 1, x2 - x1 + 1, BOX_THICKNESS, BOX_COLOR);
+    fillRect(image, x1, y1, BOX_THICKNESS, y2 - y1 + 1, BOX_COLOR);
+    fillRect(image, x2 - BOX_THICKNESS + 1, y1, BOX_THICKNESS, y2 - y1 + 1, BOX_COLOR);
+
+    drawLabel(image, String(region.index), x1, y1);
+  }
+
+  fs.writeFileSync(outputPath, PNG.sync.write(image));
+}
+
+/**
+ * Draw a number on a filled label; the label sits above the box when there's room
+ */
+function drawLabel(image: PNG, text: string, boxX: number, boxY: number): void {
+  const padding = 2 * LABEL_SCALE;
+  const charWidth = 3 * LABEL_SCALE;
+  const gap = LABEL_SCALE;
+  const labelWidth = padding * 2 + text.length * charWidth + (text.length - 1) * gap;
+  const labelHeight = padding * 2 + 5 * LABEL_SCALE;
+
+  const x = Math.min(boxX, Math.max(image.width - labelWidth, 0));
+  const y = boxY >= labelHeight ? boxY - labelHeight : boxY;
+
+  fillRect(image, x, y, labelWidth, labelHeight, BOX_COLOR);
+
+  [...text].forEach((char, i) => {
+    const bitmap = DIGITS[Number(char)];
+    const charX = x + padding + i * (charWidth + gap);
+    bitmap.forEach((row, rowIndex) => {
+      [...row].forEach((bit, colIndex) => {
+        if (bit === '1') {
+          fillRect(
+            image,
+            charX + colIndex * LABEL_SCALE,
+            y + padding + rowIndex * LABEL_SCALE,
+            LABEL_SCALE,
+            LABEL_SCALE,
+            [255, 255, 255]
+          );
+        }
+      });
+    });
+  });
+}
+
+/**
+ * Fill an opaque rectangle, clipped to the image bounds
+ */
+function fillRect(image: PNG, x: number, y: number, width: number, height: number, color: number[]): void {
+  const xEnd = Math.min(x + width, image.width);
+  const yEnd = Math.min(y + height, image.height);
+
+  for (let py = Math.max(y, 0); py < yEnd; py++) {
+    for (let px = Math.max(x, 0); px < xEnd; px++) {
+      const i = (py * image.width + px) * 4;
+      image.data[i] = color[0];
+      image.data[i + 1] = color[1];
+      image.data[i + 2] = color[2];
+      image.data[i + 3] = 255;
+    }
+  }
+}
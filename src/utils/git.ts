@@ -0,0 +1,23 @@
+/**
+ * Git Utilities
+ * Functions for reading repository state from the working directory
+ */
+
+import { execSync } from 'child_process';
+
+/**
+ * Reads the commit currently checked out in the working directory.
+ *
+ * @returns Full commit SHA, or null when git is unavailable or this isn't a repository
+ *
+ * @example
+ * getGitSha()
+ * // Returns: "3f9c2a1e..." (40 characters)
+ */
+export function getGitSha(): string | null {
+  try {
+    return execSync('git rev-parse HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim() || null;
+  } catch {
+    return null;
+  }
+}
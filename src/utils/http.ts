@@ -0,0 +1,74 @@
+/**
+ * Target Site HTTP Utilities
+ * Resolves basic auth credentials, extra headers and preset cookies for a captured URL
+ */
+
+import { HttpConfig, HttpCookie, HttpCredentials } from '../types';
+import { matchesPattern } from './pattern';
+
+export interface ResolvedHttpSettings {
+  httpCredentials: (HttpCredentials & { origin: string }) | null;
+  extraHTTPHeaders: Record<string, string>;
+  cookies: (HttpCookie & { domain: string; path: string })[];
+}
+
+/**
+ * Resolves the HTTP settings for a target URL.
+ * Every `http.domains` entry whose pattern matches the URL's hostname is
+ * applied on top of the global settings, in configuration order:
+ * credentials are replaced, headers are merged and cookies with the same
+ * name are replaced.
+ *
+ * Credentials are scoped to the URL's origin so they are never sent to
+ * third-party hosts loaded by the page.
+ *
+ * @param url - URL about to be captured
+ * @param http - `http` section of the configuration
+ * @returns Settings to apply to the browser context
+ *
+ * @example
+ * resolveHttpSettings("https://dev-site.pantheonsite.io/about", {
+ *   domains: { "*.pantheonsite.io": { httpCredentials: { username: "u", password: "p" } } }
+ * }).httpCredentials
+ * // Returns: { username: "u", password: "p", origin: "https://dev-site.pantheonsite.io" }
+ */
+export function resolveHttpSettings(url: string, http: HttpConfig): ResolvedHttpSettings {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { httpCredentials: null, extraHTTPHeaders: {}, cookies: [] };
+  }
+
+  let credentials = http.httpCredentials ?? null;
+  const headers: Record<string, string> = { ...http.extraHTTPHeaders };
+  const cookies = new Map<string, HttpCookie>();
+  for (const cookie of http.cookies ?? []) {
+    cookies.set(cookie.name, cookie);
+  }
+
+  for (const [pattern, site] of Object.entries(http.domains ?? {})) {
+    if (!matchesPattern(parsed.hostname, pattern)) {
+      continue;
+    }
+
+    if (site.httpCredentials !== undefined) {
+      credentials = site.httpCredentials;
+    }
+    Object.assign(headers, site.extraHTTPHeaders);
+    for (const cookie of site.cookies ?? []) {
+      cookies.set(cookie.name, cookie);
+    }
+  }
+
+  return {
+    httpCredentials: credentials ? { ...credentials, origin: parsed.origin } : null,
+    extraHTTPHeaders: headers,
+    // Cookies without a domain belong to the captured site
+    cookies: [...cookies.values()].map((cookie) => ({
+      ...cookie,
+      domain: cookie.domain ?? parsed.hostname,
+      path: cookie.path ?? '/',
+    })),
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Interaction Utilities
+ * Validation of scenario interactions from the API payload
+ */
+
+import { Interaction, InteractionType, Scenario } from '../types';
+
+interface InteractionRule {
+  selector: boolean;
+  value: boolean;
+}
+
+/**
+ * Fields each interaction type requires
+ */
+const INTERACTION_RULES: Record<InteractionType, InteractionRule> = {
+  click: { selector: true, value: false },
+  type: { selector: true, value: true },
+  mouseover: { selector: true, value: false },
+  wait: { selector: false, value: false },
+  scroll_to: { selector: true, value: false },
+  press_key: { selector: false, value: true },
+  select_option: { selector: true, value: true },
+  focus: { selector: true, value: false },
+  check: { selector: true, value: false },
+  wait_for_selector: { selector: true, value: false },
+  wait_for_hidden: { selector: true, value: false },
+  set_viewport: { selector: false, value: true },
+  evaluate: { selector: false, value: true },
+};
+
+/**
+ * Parses a "WIDTHxHEIGHT" viewport size used by set_viewport interactions.
+ *
+ * @example
+ * parseViewportSize("1024x768")
+ * // Returns: { width: 1024, height: 768 }
+ *
+ * @example
+ * parseViewportSize("wide")
+ * // Returns: null
+ */
+export function parseViewportSize(
+  value: string | null
+): { width: number; height: number } | null {
+  const match = value?.trim().match(/^(\d+)\s*x\s*(\d+)$/i);
+  if (!match) {
+    return null;
+  }
+
+  const width = parseInt(match[1], 10);
+  const height = parseInt(match[2], 10);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Get the checkpoint name of an interaction flagged with `capture`.
+ * Named checkpoints are sanitized for filenames; `capture: true` uses the step number.
+ *
+ * @param interaction - Interaction from the scenario
+ * @param index - Zero-based position of the interaction in the scenario
+ * @returns The checkpoint name, or null if the interaction is not a checkpoint
+ *
+ * @example
+ * getCheckpointName({ type: 'click', capture: 'Menu open', ... }, 0)
+ * // Returns: "Menu_open"
+ *
+ * @example
+ * getCheckpointName({ type: 'click', capture: true, ... }, 2)
+ * // Returns: "step3"
+ */
+export function getCheckpointName(interaction: Interaction, index: number): string | null {
+  if (typeof interaction.capture === 'string' && interaction.capture.trim() !== '') {
+    return interaction.capture.trim().replace(/[^a-zA-Z0-9_-]/g, '_');
+  }
+
+  return interaction.capture === true ? `step${index + 1}` : null;
+}
+
+/**
+ * Get the checkpoint names of a scenario, in interaction order
+ */
+export function getScenarioCheckpoints(scenario: Scenario): string[] {
+  return (scenario.interactions ?? [])
+    .map((interaction, index) => getCheckpointName(interaction, index))
+    .filter((name): name is string => name !== null);
+}
+
+/**
+ * Builds the viewport key used in artifact filenames for a checkpoint.
+ *
+ * @example
+ * getCheckpointViewportKey("desktop", "menu-open")
+ * // Returns: "desktop__menu-open"
+ */
+export function getCheckpointViewportKey(viewportKey: string, checkpoint: string): string {
+  return `${viewportKey}__${checkpoint}`;
+}
+
+/**
+ * Validate a single interaction, returning a list of problems
+ */
+function validateInteraction(interaction: Interaction): string[] {
+  const rule = INTERACTION_RULES[interaction.type];
+  if (!rule) {
+    return [`unknown type "${interaction.type}"`];
+  }
+
+  const errors: string[] = [];
+
+  if (rule.selector && !interaction.selector) {
+    errors.push(`"${interaction.type}" requires a selector`);
+  }
+  if (rule.value && (interaction.value === null || interaction.value === undefined || interaction.value === '')) {
+    errors.push(`"${interaction.type}" requires a value`);
+  }
+  if (interaction.type === 'wait' && !(interaction.wait_ms !== null && interaction.wait_ms > 0)) {
+    errors.push('"wait" requires a positive wait_ms');
+  }
+  if (
+    interaction.capture !== undefined &&
+    interaction.capture !== null &&
+    typeof interaction.capture !== 'boolean' &&
+    typeof interaction.capture !== 'string'
+  ) {
+    errors.push('capture must be a boolean or a checkpoint name');
+  }
+  if (interaction.type === 'set_viewport' && interaction.value && !parseViewportSize(interaction.value)) {
+    errors.push(`"set_viewport" value must be WIDTHxHEIGHT (got "${interaction.value}")`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validate the interactions of all scenarios in a payload.
+ * Each problem is reported with the scenario ID and interaction position.
+ *
+ * @param scenarios - Scenarios from the API payload
+ * @returns A list of validation errors (empty if all interactions are valid)
+ */
+export function validateScenarioInteractions(scenarios: Scenario[]): string[] {
+  const errors: string[] = [];
+
+  for (const scenario of scenarios) {
+    (scenario.interactions ?? []).forEach((interaction, index) => {
+      for (const error of validateInteraction(interaction)) {
+        errors.push(`${scenario.id}: interaction #${index + 1} ${error}`);
+      }
+    });
+
+    const checkpoints = getScenarioCheckpoints(scenario);
+    const duplicates = checkpoints.filter((name, i) => checkpoints.indexOf(name) !== i);
+    if (duplicates.length > 0) {
+      errors.push(`${scenario.id}: duplicate checkpoint name(s): ${[...new Set(duplicates)].join(', ')}`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,35 @@
+/**
+ * Pattern Matching Utilities Tests
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { matchesPattern } from './pattern';
+
+describe('matchesPattern', () => {
+  it('matches exact values only in full', () => {
+    assert.equal(matchesPattern('homepage', 'homepage'), true);
+    assert.equal(matchesPattern('homepage', 'home'), false);
+    assert.equal(matchesPattern('home', 'homepage'), false);
+  });
+
+  it('treats * as any sequence, including an empty one', () => {
+    assert.equal(matchesPattern('node:123', 'node:*'), true);
+    assert.equal(matchesPattern('node:', 'node:*'), true);
+    assert.equal(matchesPattern('mobile_hd', '*_hd'), true);
+    assert.equal(matchesPattern('taxonomy:1', 'node:*'), false);
+  });
+
+  it('treats ? as exactly one character', () => {
+    assert.equal(matchesPattern('node:1', 'node:?'), true);
+    assert.equal(matchesPattern('node:12', 'node:?'), false);
+  });
+
+  it('matches regular expression characters literally', () => {
+    assert.equal(matchesPattern('a.b', 'a.b'), true);
+    assert.equal(matchesPattern('axb', 'a.b'), false);
+    assert.equal(matchesPattern('page(1)+', 'page(*)+'), true);
+    assert.equal(matchesPattern('price$', 'price$'), true);
+    assert.equal(matchesPattern('a[1]', 'a[?]'), true);
+  });
+});
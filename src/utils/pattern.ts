@@ -0,0 +1,37 @@
+/**
+ * Pattern Matching Utilities
+ * Simple glob matching for scenario IDs and viewport keys in configuration
+ */
+
+/**
+ * Checks whether a value matches a glob-style pattern.
+ * Only `*` (any sequence of characters) and `?` (a single character) are special.
+ *
+ * @param value - Value to test (e.g., "node:123")
+ * @param pattern - Exact value or glob pattern (e.g., "node:*")
+ * @returns True if the whole value matches the pattern
+ *
+ * @example
+ * matchesPattern("node:123", "node:*")
+ * // Returns: true
+ *
+ * @example
+ * matchesPattern("homepage", "home")
+ * // Returns: false
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  if (pattern === value) {
+    return true;
+  }
+
+  const regexSource = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${regexSource}$`).test(value);
+}
@@ -0,0 +1,107 @@
+/**
+ * PNG Utilities Tests
+ */
+
+import { strict as assert } from 'node:assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { PNG } from 'pngjs';
+import { copyRegions, padPng, parseHexColor, readPngSize } from './png';
+
+/**
+ * Build an opaque image where every pixel has the given color
+ */
+function createImage(width: number, height: number, color: [number, number, number]): PNG {
+  const image = new PNG({ width, height });
+  for (let i = 0; i < image.data.length; i += 4) {
+    image.data.set([...color, 255], i);
+  }
+  return image;
+}
+
+/**
+ * Read the RGBA values of one pixel
+ */
+function pixelAt(image: PNG, x: number, y: number): number[] {
+  const i = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(i, i + 4));
+}
+
+describe('PNG files', () => {
+  let tmpDir: string;
+
+  before(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vrt-png-'));
+  });
+
+  after(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reads the size from the header', () => {
+    const filePath = path.join(tmpDir, 'size.png');
+    fs.writeFileSync(filePath, PNG.sync.write(createImage(7, 3, [0, 0, 0])));
+
+    assert.deepEqual(readPngSize(filePath), { width: 7, height: 3 });
+  });
+
+  it('rejects files that are not PNGs', () => {
+    const filePath = path.join(tmpDir, 'not.png');
+    fs.writeFileSync(filePath, 'x'.repeat(32));
+
+    assert.throws(() => readPngSize(filePath), /Not a PNG file/);
+  });
+
+  it('pads an image with transparent pixels, keeping it in the top-left corner', () => {
+    const sourcePath = path.join(tmpDir, 'source.png');
+    const paddedPath = path.join(tmpDir, 'padded.png');
+    fs.writeFileSync(sourcePath, PNG.sync.write(createImage(4, 2, [255, 0, 0])));
+
+    padPng(sourcePath, 6, 5, paddedPath);
+    const padded = PNG.sync.read(fs.readFileSync(paddedPath));
+
+    assert.deepEqual([padded.width, padded.height], [6, 5]);
+    assert.deepEqual(pixelAt(padded, 0, 0), [255, 0, 0, 255]);
+    assert.deepEqual(pixelAt(padded, 3, 1), [255, 0, 0, 255]);
+    assert.deepEqual(pixelAt(padded, 4, 1), [0, 0, 0, 0]);
+    assert.deepEqual(pixelAt(padded, 3, 2), [0, 0, 0, 0]);
+  });
+});
+
+describe('copyRegions', () => {
+  it('copies pixels inside the regions only', () => {
+    const source = createImage(10, 10, [0, 255, 0]);
+    const target = createImage(10, 10, [0, 0, 255]);
+
+    copyRegions(source, target, [{ x: 2, y: 2, width: 3, height: 3 }]);
+
+    assert.deepEqual(pixelAt(target, 2, 2), [0, 255, 0, 255]);
+    assert.deepEqual(pixelAt(target, 4, 4), [0, 255, 0, 255]);
+    assert.deepEqual(pixelAt(target, 5, 5), [0, 0, 255, 255]);
+    assert.deepEqual(pixelAt(target, 1, 2), [0, 0, 255, 255]);
+  });
+
+  it('clips regions to the image and skips regions outside it', () => {
+    const source = createImage(10, 10, [0, 255, 0]);
+    const target = createImage(10, 10, [0, 0, 255]);
+
+    copyRegions(source, target, [
+      { x: -5, y: 8, width: 7, height: 10 },
+      { x: 20, y: 20, width: 5, height: 5 },
+    ]);
+
+    assert.deepEqual(pixelAt(target, 0, 9), [0, 255, 0, 255]);
+    assert.deepEqual(pixelAt(target, 1, 8), [0, 255, 0, 255]);
+    assert.deepEqual(pixelAt(target, 2, 8), [0, 0, 255, 255]);
+    assert.deepEqual(pixelAt(target, 0, 7), [0, 0, 255, 255]);
+  });
+});
+
+describe('parseHexColor', () => {
+  it('splits a hex color into its components', () => {
+    assert.deepEqual(parseHexColor('#ff8000'), [255, 128, 0]);
+    assert.deepEqual(parseHexColor('00ff7f'), [0, 255, 127]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * PNG Utilities
+ * Reads, pads and patches PNG images for the comparison engines
+ */
+
+import * as fs from 'fs';
+import { PNG } from 'pngjs';
+import { IgnoreRegion } from '../types';
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads the dimensions of a PNG file from its IHDR header without decoding pixels.
+ *
+ * @param filePath - Path to a PNG file
+ * @returns Image width and height in pixels
+ *
+ * @example
+ * readPngSize("baselines/homepage__desktop.png")
+ * // Returns: { width: 1920, height: 4213 }
+ */
+export function readPngSize(filePath: string): ImageSize {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = Buffer.alloc(24);
+    fs.readSync(fd, header, 0, 24, 0);
+
+    // 8-byte signature, then the IHDR chunk: length, type, width, height
+    if (header.toString('ascii', 12, 16) !== 'IHDR') {
+      throw new Error(`Not a PNG file: ${filePath}`);
+    }
+
+    return {
+      width: header.readUInt32BE(16),
+      height: header.readUInt32BE(20),
+    };
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Writes a copy of a PNG enlarged to the given size.
+ * The original image stays in the top-left corner; the added area is transparent.
+ *
+ * @param sourcePath - PNG to pad
+ * @param width - Target width, at least the source width
+ * @param height - Target height, at least the source height
+ * @param outputPath - Where to write the padded PNG
+ */
+export function padPng(sourcePath: string, width: number, height: number, outputPath: string): void {
+  const source = PNG.sync.read(fs.readFileSync(sourcePath));
+  const padded = new PNG({ width, height });
+
+  PNG.bitblt(source, padded, 0, 0, source.width, source.height, 0, 0);
+  fs.writeFileSync(outputPath, PNG.sync.write(padded));
+}
+
+/**
+ * Decodes a PNG file into RGBA pixel data.
+ *
+ * @param filePath - Path to a PNG file
+ * @returns Decoded image
+ */
+export function readPng(filePath: string): PNG {
+  return PNG.sync.read(fs.readFileSync(filePath));
+}
+
+/**
+ * Copies the pixels inside the given regions from one image to another of the same size,
+ * so engines without native ignore regions see those areas as identical.
+ * Regions are clipped to the image bounds.
+ *
+ * @param source - Image to copy pixels from (usually the baseline)
+ * @param target - Image to copy pixels into (usually the current capture)
+ * @param regions - Regions in image pixels
+ */
+export function copyRegions(source: PNG, target: PNG, regions: IgnoreRegion[]): void {
+  for (const region of regions) {
+    const x = Math.max(0, region.x);
+    const y = Math.max(0, region.y);
+    const width = Math.min(region.x + region.width, source.width) - x;
+    const height = Math.min(region.y + region.height, source.height) - y;
+
+    if (width > 0 && height > 0) {
+      PNG.bitblt(source, target, x, y, width, height, x, y);
+    }
+  }
+}
+
+/**
+ * Converts a hex color to its red, green and blue components.
+ *
+ * @param hex - Color in "#rrggbb" form
+ * @returns RGB components (0-255)
+ *
+ * @example
+ * parseHexColor("#ff8000")
+ * // Returns: [255, 128, 0]
+ */
+export function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace(/^#/, ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
@@ -0,0 +1,81 @@
+/**
+ * Prompt Utilities
+ * Functions for asking the user questions on the terminal
+ */
+
+import * as readline from 'readline';
+
+/**
+ * Asks a question on the terminal and waits for the answer.
+ *
+ * @param message - Question to show; a space is added after it
+ * @returns The answer with surrounding whitespace removed
+ *
+ * @example
+ * await ask("Accept? [y/n/a/q]")
+ * // Returns: "y"
+ */
+export async function ask(message: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise((resolve) => {
+    rl.question(`${message} `, (answer) => {
+      rl.close();
+      resolve(answer.trim());
+    });
+  });
+}
+
+/**
+ * Asks a yes/no question on the terminal; anything other than "y" or "yes" means no.
+ *
+ * @param message - Question shown before the "(y/N)" hint
+ * @returns Whether the user answered yes
+ *
+ * @example
+ * await confirm("Delete 3 orphaned baselines?")
+ * // Prints: Delete 3 orphaned baselines? (y/N):
+ */
+export async function confirm(message: string): Promise<boolean> {
+  const answer = (await ask(`${message} (y/N):`)).toLowerCase();
+  return answer === 'y' || answer === 'yes';
+}
+
+export interface PromptSession {
+  ask(message: string): Promise<string>;
+  close(): void;
+}
+
+/**
+ * Opens one terminal session for a series of questions.
+ * Answers typed (or piped) ahead of a question are kept for it rather than dropped.
+ * Once input ends, every question is answered with an empty string.
+ *
+ * @returns Session to ask questions with; close it when done
+ *
+ * @example
+ * const prompt = createPromptSession();
+ * const answer = await prompt.ask("Accept? [y/n]");
+ * prompt.close();
+ */
+export function createPromptSession(): PromptSession {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const lines = rl[Symbol.asyncIterator]();
+
+  return {
+    async ask(message: string): Promise<string> {
+      process.stdout.write(`${message} `);
+      const line = await lines.next();
+      return line.done ? '' : String(line.value).trim();
+    },
+    close(): void {
+      rl.close();
+    },
+  };
+}
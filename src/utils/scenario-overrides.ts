@@ -0,0 +1,58 @@
+/**
+ * Scenario Override Utilities
+ * Merges locally configured scenario settings into scenarios fetched from the API
+ */
+
+import { Scenario, ScenarioOverride } from '../types';
+import { matchesPattern } from './pattern';
+
+/**
+ * Applies every matching override to a scenario, in configuration order.
+ * Array fields are appended to the API values; scalar fields replace them.
+ *
+ * @param scenario - Scenario from the API payload
+ * @param overrides - Overrides keyed by scenario ID or glob pattern
+ * @returns A new scenario with the overrides applied
+ */
+export function applyScenarioOverride(
+  scenario: Scenario,
+  overrides: Record<string, ScenarioOverride>
+): Scenario {
+  let result: Scenario = scenario;
+
+  for (const [pattern, override] of Object.entries(overrides)) {
+    if (!matchesPattern(scenario.id, pattern)) {
+      continue;
+    }
+
+    const merged: Record<string, unknown> = { ...result };
+    for (const [key, value] of Object.entries(override)) {
+      if (value === undefined) {
+        continue;
+      }
+
+      const current = merged[key];
+      merged[key] = Array.isArray(value) && Array.isArray(current)
+        ? [...current, ...value]
+        : value;
+    }
+
+    result = merged as unknown as Scenario;
+  }
+
+  return result;
+}
+
+/**
+ * Applies the configured overrides to all scenarios
+ */
+export function applyScenarioOverrides(
+  scenarios: Scenario[],
+  overrides: Record<string, ScenarioOverride>
+): Scenario[] {
+  if (Object.keys(overrides).length === 0) {
+    return scenarios;
+  }
+
+  return scenarios.map((scenario) => applyScenarioOverride(scenario, overrides));
+}
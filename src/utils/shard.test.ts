@@ -0,0 +1,72 @@
+/**
+ * Shard Utilities Tests
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { formatShard, parseShard, selectShard } from './shard';
+
+const identity = (item: string): string => item;
+
+describe('parseShard', () => {
+  it('parses index/total', () => {
+    assert.deepEqual(parseShard('2/4'), { index: 2, total: 4 });
+    assert.deepEqual(parseShard(' 1/1 '), { index: 1, total: 1 });
+  });
+
+  it('rejects malformed values and out-of-range indexes', () => {
+    for (const value of ['', '2', '2/', '/4', 'a/b', '-1/4', '1.5/4', '0/4', '5/4', '1/0']) {
+      assert.throws(() => parseShard(value), /Invalid shard/, value);
+    }
+  });
+
+  it('round-trips through formatShard', () => {
+    assert.equal(formatShard(parseShard('3/7')), '3/7');
+  });
+});
+
+describe('selectShard', () => {
+  const items = Array.from({ length: 23 }, (_, i) => `scenario-${i}|desktop`);
+
+  it('returns every item without a shard or with a single shard', () => {
+    assert.equal(selectShard(items, undefined, identity), items);
+    assert.deepEqual(selectShard(items, { index: 1, total: 1 }, identity), items);
+  });
+
+  it('covers every item exactly once across all shards', () => {
+    for (const total of [2, 3, 4, 5, 23, 30]) {
+      const shards = Array.from({ length: total }, (_, i) => selectShard(items, { index: i + 1, total }, identity));
+      const all = shards.flat();
+
+      assert.equal(all.length, items.length, `total ${total}`);
+      assert.deepEqual([...all].sort(), [...items].sort(), `total ${total}`);
+    }
+  });
+
+  it('gives every shard an equal share, give or take one', () => {
+    const sizes = [1, 2, 3, 4].map((index) => selectShard(items, { index, total: 4 }, identity).length);
+
+    assert.deepEqual(sizes, [6, 6, 6, 5]);
+  });
+
+  it('does not depend on the order of the items', () => {
+    const reversed = [...items].reverse();
+
+    for (let index = 1; index <= 3; index++) {
+      const shard = { index, total: 3 };
+      assert.deepEqual(
+        selectShard(reversed, shard, identity).sort(),
+        selectShard(items, shard, identity).sort()
+      );
+    }
+  });
+
+  it('keeps the original order within a shard', () => {
+    assert.deepEqual(selectShard(['c', 'a', 'b', 'd'], { index: 1, total: 2 }, identity), ['c', 'a']);
+    assert.deepEqual(selectShard(['c', 'a', 'b', 'd'], { index: 2, total: 2 }, identity), ['b', 'd']);
+  });
+
+  it('leaves shards empty when there are more shards than items', () => {
+    assert.deepEqual(selectShard(['a', 'b'], { index: 3, total: 3 }, identity), []);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Shard Utilities
+ * Split the test list between several machines with --shard index/total
+ */
+
+import { Shard } from '../types';
+
+/**
+ * Parses a shard option value of the form "index/total".
+ *
+ * @param value - Shard option value (e.g., "2/4")
+ * @returns The 1-based shard index and the number of shards
+ * @throws Error if the value isn't two positive integers with index <= total
+ *
+ * @example
+ * parseShard("2/4")
+ * // Returns: { index: 2, total: 4 }
+ */
+export function parseShard(value: string): Shard {
+  const match = /^(\d+)\/(\d+)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid shard "${value}". Use index/total, e.g. 1/4.`);
+  }
+
+  const index = Number(match[1]);
+  const total = Number(match[2]);
+  if (total < 1 || index < 1 || index > total) {
+    throw new Error(`Invalid shard "${value}". The index must be between 1 and ${Math.max(total, 1)}.`);
+  }
+
+  return { index, total };
+}
+
+/**
+ * Formats a shard for display and filenames.
+ *
+ * @example
+ * formatShard({ index: 2, total: 4 })
+ * // Returns: "2/4"
+ */
+export function formatShard(shard: Shard): string {
+  return `${shard.index}/${shard.total}`;
+}
+
+/**
+ * Selects the items that belong to a shard.
+ * Items are sorted by key and dealt out in turn, so every shard gets an equal share
+ * and the split doesn't depend on the order the API returns scenarios in.
+ * Every machine must see the same list for the shards to cover it exactly once.
+ *
+ * @param items - All items to split
+ * @param shard - Shard to select, or undefined for all items
+ * @param getKey - Unique, stable key of an item (e.g., scenario ID, viewport and browser)
+ * @returns The shard's items, in their original order
+ *
+ * @example
+ * selectShard(["c", "a", "b", "d"], { index: 1, total: 2 }, (item) => item)
+ * // Returns: ["c", "a"]
+ */
+export function selectShard<T>(items: T[], shard: Shard | undefined, getKey: (item: T) => string): T[] {
+  if (!shard || shard.total === 1) {
+    return items;
+  }
+
+  const keys = items.map(getKey);
+  const sorted = [...keys].sort();
+  const selected = new Set(sorted.filter((_, position) => position % shard.total === shard.index - 1));
+
+  return items.filter((_, i) => selected.has(keys[i]));
+}
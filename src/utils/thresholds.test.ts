@@ -0,0 +1,122 @@
+/**
+ * Comparison Threshold Utilities Tests
+ */
+
+import { strict as assert } from 'node:assert';
+import { describe, it } from 'node:test';
+import { ComparisonConfig, ComparisonOverride, Scenario } from '../types';
+import { resolveEngineOptions, resolveThresholds } from './thresholds';
+
+/**
+ * Only the fields the resolvers read; the rest of the config doesn't matter here
+ */
+function createComparison(overrides: ComparisonOverride[] = []): ComparisonConfig {
+  return {
+    engineOptions: {
+      antialiasing: true,
+      diffColor: '#ff0000',
+      diffStyle: 'overlay',
+      ignoreRegions: [{ x: 0, y: 0, width: 10, height: 10 }],
+    },
+    threshold: 0.1,
+    maxDiffPixels: 100,
+    maxDiffPixelRatio: 0.01,
+    overrides,
+  } as ComparisonConfig;
+}
+
+function createScenario(fields: Partial<Scenario> = {}): Scenario {
+  return {
+    id: 'node:1',
+    title: 'Homepage',
+    url: 'https://example.com/',
+    mode: 'static',
+    wait_time_ms: 0,
+    wait_time_seconds: 0,
+    viewport_keys: ['desktop', 'mobile'],
+    source: 'node',
+    source_reference: '1',
+    content_type: 'page',
+    interactions: [],
+    ...fields,
+  };
+}
+
+describe('resolveThresholds', () => {
+  it('uses the global settings when nothing else applies', () => {
+    assert.deepEqual(resolveThresholds(createComparison(), createScenario(), 'desktop'), {
+      threshold: 0.1,
+      maxDiffPixels: 100,
+      maxDiffPixelRatio: 0.01,
+    });
+  });
+
+  it('applies only the overrides matching both the scenario and the viewport', () => {
+    const comparison = createComparison([
+      { viewport: 'mobile*', maxDiffPixels: 500 },
+      { scenario: 'node:2', threshold: 0.5 },
+      { scenario: 'node:*', viewport: 'desktop', maxDiffPixelRatio: 0.2 },
+    ]);
+
+    assert.deepEqual(resolveThresholds(comparison, createScenario(), 'mobile_hd'), {
+      threshold: 0.1,
+      maxDiffPixels: 500,
+      maxDiffPixelRatio: 0.01,
+    });
+    assert.deepEqual(resolveThresholds(comparison, createScenario(), 'desktop'), {
+      threshold: 0.1,
+      maxDiffPixels: 100,
+      maxDiffPixelRatio: 0.2,
+    });
+  });
+
+  it('lets later overrides win over earlier ones, field by field', () => {
+    const comparison = createComparison([
+      { scenario: 'node:*', maxDiffPixels: 200, threshold: 0.2 },
+      { scenario: 'node:1', maxDiffPixels: 300 },
+    ]);
+
+    const thresholds = resolveThresholds(comparison, createScenario(), 'desktop');
+
+    assert.equal(thresholds.maxDiffPixels, 300);
+    assert.equal(thresholds.threshold, 0.2);
+  });
+
+  it('lets scenario fields win over overrides', () => {
+    const comparison = createComparison([{ scenario: 'node:1', maxDiffPixels: 300, threshold: 0.2 }]);
+    const scenario = createScenario({ max_diff_pixels: 0, threshold: null });
+
+    const thresholds = resolveThresholds(comparison, scenario, 'desktop');
+
+    // 0 is a real value, null from the API means "not set"
+    assert.equal(thresholds.maxDiffPixels, 0);
+    assert.equal(thresholds.threshold, 0.2);
+  });
+});
+
+describe('resolveEngineOptions', () => {
+  it('adds override ignore regions to the global ones and replaces other options', () => {
+    const comparison = createComparison([
+      { viewport: 'mobile', engineOptions: { antialiasing: false, ignoreRegions: [{ x: 5, y: 5, width: 1, height: 1 }] } },
+    ]);
+
+    const options = resolveEngineOptions(comparison, 'node:1', 'mobile');
+
+    assert.equal(options.antialiasing, false);
+    assert.equal(options.diffColor, '#ff0000');
+    assert.deepEqual(options.ignoreRegions, [
+      { x: 0, y: 0, width: 10, height: 10 },
+      { x: 5, y: 5, width: 1, height: 1 },
+    ]);
+  });
+
+  it('does not modify the configuration', () => {
+    const comparison = createComparison([
+      { engineOptions: { ignoreRegions: [{ x: 5, y: 5, width: 1, height: 1 }] } },
+    ]);
+
+    resolveEngineOptions(comparison, 'node:1', 'desktop');
+
+    assert.equal(comparison.engineOptions.ignoreRegions.length, 1);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Comparison Threshold Utilities
+ * Resolves the diff thresholds and engine options that apply to a scenario/viewport combination
+ */
+
+import { ComparisonConfig, ComparisonOverride, ComparisonThresholds, EngineOptions, Scenario } from '../types';
+import { matchesPattern } from './pattern';
+
+/**
+ * Get the `comparison.overrides` entries matching a scenario and viewport, in configuration order
+ */
+function getMatchingOverrides(
+  comparison: ComparisonConfig,
+  scenarioId: string,
+  viewportKey: string
+): ComparisonOverride[] {
+  return comparison.overrides.filter(
+    (override) =>
+      (override.scenario === undefined || matchesPattern(scenarioId, override.scenario)) &&
+      (override.viewport === undefined || matchesPattern(viewportKey, override.viewport))
+  );
+}
+
+/**
+ * Resolves the thresholds for a scenario captured at a viewport.
+ * Layers, from lowest to highest precedence:
+ * 1. the global `comparison` settings
+ * 2. every matching `comparison.overrides` entry, in configuration order
+ * 3. threshold fields on the scenario (from the API payload or `scenarioOverrides`)
+ *
+ * @param comparison - `comparison` section of the configuration
+ * @param scenario - Scenario being compared
+ * @param viewportKey - Plain viewport key (e.g. "mobile")
+ * @returns The thresholds to compare with
+ *
+ * @example
+ * // comparison: { maxDiffPixels: 100, overrides: [{ viewport: "mobile*", maxDiffPixels: 500 }], ... }
+ * resolveThresholds(comparison, scenario, "mobile_hd").maxDiffPixels
+ * // Returns: 500
+ */
+export function resolveThresholds(
+  comparison: ComparisonConfig,
+  scenario: Scenario,
+  viewportKey: string
+): ComparisonThresholds {
+  const thresholds: ComparisonThresholds = {
+    threshold: comparison.threshold,
+    maxDiffPixels: comparison.maxDiffPixels,
+    maxDiffPixelRatio: comparison.maxDiffPixelRatio,
+  };
+
+  for (const override of getMatchingOverrides(comparison, scenario.id, viewportKey)) {
+    thresholds.threshold = override.threshold ?? thresholds.threshold;
+    thresholds.maxDiffPixels = override.maxDiffPixels ?? thresholds.maxDiffPixels;
+    thresholds.maxDiffPixelRatio = override.maxDiffPixelRatio ?? thresholds.maxDiffPixelRatio;
+  }
+
+  thresholds.threshold = scenario.threshold ?? thresholds.threshold;
+  thresholds.maxDiffPixels = scenario.max_diff_pixels ?? thresholds.maxDiffPixels;
+  thresholds.maxDiffPixelRatio = scenario.max_diff_pixel_ratio ?? thresholds.maxDiffPixelRatio;
+
+  return thresholds;
+}
+
+/**
+ * Resolves the engine options for a scenario captured at a viewport.
+ * Matching `comparison.overrides` entries are applied over `comparison.engineOptions`
+ * in configuration order; their `ignoreRegions` are added to the global ones.
+ *
+ * @param comparison - `comparison` section of the configuration
+ * @param scenarioId - ID of the scenario being compared
+ * @param viewportKey - Plain viewport key (e.g. "mobile")
+ * @returns The engine options to compare with
+ */
+export function resolveEngineOptions(
+  comparison: ComparisonConfig,
+  scenarioId: string,
+  viewportKey: string
+): EngineOptions {
+  const options: EngineOptions = {
+    ...comparison.engineOptions,
+    ignoreRegions: [...comparison.engineOptions.ignoreRegions],
+  };
+
+  for (const override of getMatchingOverrides(comparison, scenarioId, viewportKey)) {
+    const { ignoreRegions, ...rest } = override.engineOptions ?? {};
+    Object.assign(options, rest);
+    options.ignoreRegions.push(...(ignoreRegions ?? []));
+  }
+
+  return options;
+}
@@ -44,7 +44,7 @@ export function replaceDomain(
     // Combine new domain with original path, search, and hash
     // pathname always starts with '/', so no need to add one
     return `${normalizedDomain}${parsedOriginal.pathname}${parsedOriginal.search}${parsedOriginal.hash}`;
-  } catch (error) {
+  } catch {
     // If URL parsing fails, return original unchanged
     // This handles edge cases where originalUrl might be malformed
     console.warn(`Warning: Could not parse URL "${originalUrl}", using original`);